@@ -2,21 +2,80 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, ChangeEvent, useEffect, useCallback } from 'react';
+import React, { useState, ChangeEvent, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { estimatePersonAge, generateAgeImage } from './services/geminiService';
-import { createVideoFromImages } from './lib/videoUtils';
+import { getImageProvider, DetectedFace } from './services/imageProvider';
+import { describeError, frameRetryDelayFor, ErrorNotice as ErrorNoticeContent } from './services/errors';
+import { generateAgeImageCached, clearGenerationCache, getGenerationCacheStats, CacheStats } from './services/generationCache';
+import { createVideoFromImages, VideoProgress, VideoRenderOptions, VideoResult } from './lib/videoUtils';
+import type { VideoTimeline } from './lib/videoOverlays';
+import { createLatestWinsScheduler } from './lib/latestWins';
+import { createFrameJobs, isFrameQueueComplete, runFrameQueue, FrameJob } from './lib/frameQueue';
+import { isAbortError, throwIfAborted } from './lib/abortUtils';
+import { downloadBlob } from './lib/downloadUtils';
+import type { AlbumEntry } from './lib/albumUtils';
+import { sha256Hex } from './lib/hashUtils';
+import { describeSubject } from './lib/subjectUtils';
+import { preprocessImage, SUPPORTED_IMAGE_TYPES } from './lib/imagePreprocess';
+import { buildAgePrompt, PromptPresetId } from './lib/promptBuilder';
+import { chainNeighbourAge, FRAME_STRATEGY_LABEL_KEYS, FrameStrategy } from './lib/frameChain';
+import { resolveAgeAnchor, AgeAnchor, MIN_AGE, MAX_AGE } from './lib/ageAnchor';
+import { defaultCardLayout, loadBoardLayout, saveBoardLayout, BoardLayout } from './lib/boardLayout';
+import { exportSessionFile, importSessionFile, GenerationInfo } from './lib/sessionFile';
+import { prepareImageExport } from './lib/provenance';
+import { createFrameArchive } from './lib/frameArchive';
+import { shortcutForKeyEvent, ShortcutAction, SHORTCUT_KEYS } from './lib/keyboardShortcuts';
 import PolaroidCard from './components/PolaroidCard';
-import ImageViewer from './components/ImageViewer';
-import AgeSlider from './components/AgeSlider';
+import CameraCapture, { isCameraSupported } from './components/CameraCapture';
+import ImageViewer, { ComparisonMode, ComparisonView } from './components/ImageViewer';
+import ComparisonControls from './components/ComparisonControls';
+import AgeSlider, { SliderMode } from './components/AgeSlider';
+import PromptPresetPicker from './components/PromptPresetPicker';
+import AgeAnchorPanel from './components/AgeAnchorPanel';
+import ReferenceStrip from './components/ReferenceStrip';
+import StrategyComparison from './components/StrategyComparison';
 import Footer from './components/Footer';
+import ErrorNotice from './components/ErrorNotice';
 import VideoPlayerModal from './components/VideoPlayerModal';
+import FrameProgressGrid from './components/FrameProgressGrid';
+import AlbumExportPanel from './components/AlbumExportPanel';
+import PolaroidBoard from './components/PolaroidBoard';
+import VideoSettingsPanel from './components/VideoSettingsPanel';
+import VideoTimelinePanel, { CAPTION_FONT_FAMILIES, VideoTimelineSettings } from './components/VideoTimelinePanel';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { isLocalizedError } from './lib/i18n';
+import type { MessageKey } from './locales/en';
 
-type AppState = 'idle' | 'estimating' | 'interactive' | 'error';
+// Each reference photo is sent with every request, so keep the count small.
+const MAX_REFERENCE_IMAGES = 4;
+// Uploads are scaled down to this size before being sent to the model.
+const UPLOAD_MAX_DIMENSION = 1024;
+
+type AppState = 'idle' | 'estimating' | 'selecting-subject' | 'interactive' | 'error';
+
+const VIDEO_PROGRESS_KEYS: Record<VideoProgress['stage'], MessageKey> = {
+    initializing: 'video.progress.initializing',
+    rendering: 'video.progress.rendering',
+    recording: 'video.progress.recording',
+    'encoding-gif': 'video.progress.encodingGif',
+    finalizing: 'video.progress.finalizing',
+    'finalizing-gif': 'video.progress.finalizingGif',
+};
 
 const primaryButtonClasses = "font-permanent-marker text-xl text-center text-black bg-yellow-400 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[2px_2px_0px_2px_rgba(0,0,0,0.2)]";
 const secondaryButtonClasses = "font-permanent-marker text-xl text-center text-white bg-white/10 backdrop-blur-sm border-2 border-white/80 py-3 px-8 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black";
 
+/**
+ * Identifies a session by the hash of its photo, so its board layout is found again next time.
+ * Falls back to a one-off id if hashing fails, so exports still work for this session.
+ */
+const sessionIdFor = (imageDataUrl: string): Promise<string> =>
+    sha256Hex(imageDataUrl).catch(err => {
+        console.warn("Failed to hash photo, using a one-off session id:", err);
+        return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    });
+
 // A simple debounce hook
 const useDebounce = <T,>(value: T, delay: number): T => {
     const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -33,175 +92,723 @@ const useDebounce = <T,>(value: T, delay: number): T => {
 
 
 function App() {
+    const { t, tPlural, formatNumber, formatYear } = useI18n();
     const [appState, setAppState] = useState<AppState>('idle');
     const [uploadedImage, setUploadedImage] = useState<string | null>(null);
     const [displayImage, setDisplayImage] = useState<string | null>(null);
-    const [estimatedAge, setEstimatedAge] = useState<number | null>(null);
+    const [ageAnchor, setAgeAnchor] = useState<AgeAnchor | null>(null);
+    const [faces, setFaces] = useState<DetectedFace[]>([]);
+    const [referenceImages, setReferenceImages] = useState<string[]>([]);
+    const [subjectIndex, setSubjectIndex] = useState<number | null>(null);
     const [targetAge, setTargetAge] = useState<number>(0);
-    const [isGenerating, setIsGenerating] = useState<boolean>(false);
+    const [promptPreset, setPromptPreset] = useState<PromptPresetId>('realistic');
+    const [sliderMode, setSliderMode] = useState<SliderMode>('age');
+    const [pendingAge, setPendingAge] = useState<number | null>(null);
+    const [displayedAge, setDisplayedAge] = useState<number | null>(null);
+    const [generatedImages, setGeneratedImages] = useState<Record<number, string>>({});
+    // How each generated age was rendered, saved alongside the images in session files and exports.
+    const [generationInfo, setGenerationInfo] = useState<Record<number, GenerationInfo>>({});
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [boardLayout, setBoardLayout] = useState<BoardLayout>({});
+    const [showBoard, setShowBoard] = useState<boolean>(false);
     const [isVideoGenerating, setIsVideoGenerating] = useState<boolean>(false);
     const [videoGenerationMessage, setVideoGenerationMessage] = useState<string>('');
-    const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+    const [frameStrategy, setFrameStrategy] = useState<FrameStrategy>('independent');
+    const [videoFramesByStrategy, setVideoFramesByStrategy] = useState<Partial<Record<FrameStrategy, FrameJob[]>>>({});
+    const [videoConcurrency, setVideoConcurrency] = useState<number>(3);
+    const [videoSettings, setVideoSettings] = useState<VideoRenderOptions>({ transition: 'crossfade', easing: 'easeInOut', fit: 'letterbox' });
+    const [videoTimelineSettings, setVideoTimelineSettings] = useState<VideoTimelineSettings>({
+        captions: true,
+        titleCards: true,
+        captionFont: 'marker',
+        captionPosition: 'bottom',
+        soundtrack: null,
+    });
+    const [generatedVideo, setGeneratedVideo] = useState<VideoResult | null>(null);
     const [showVideoModal, setShowVideoModal] = useState<boolean>(false);
-    const [errorMessage, setErrorMessage] = useState<string>('');
+    const [errorNotice, setErrorNotice] = useState<ErrorNoticeContent | null>(null);
+    const [showCamera, setShowCamera] = useState<boolean>(false);
+    const [watermarkExports, setWatermarkExports] = useState<boolean>(true);
+    const [isExportingAll, setIsExportingAll] = useState<boolean>(false);
+    const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
+    // null means the original photo for "before" and the slider's age for "after".
+    const [compareBeforeAge, setCompareBeforeAge] = useState<number | null>(null);
+    const [compareAfterAge, setCompareAfterAge] = useState<number | null>(null);
+    const [isDraggingFile, setIsDraggingFile] = useState<boolean>(false);
+    const [cacheStats, setCacheStats] = useState<CacheStats>({ entries: 0, bytes: 0 });
+    
+    const [generationScheduler] = useState(createLatestWinsScheduler);
+    const videoAbortRef = useRef<AbortController | null>(null);
     
     const debouncedTargetAge = useDebounce(targetAge, 500);
+    const isGenerating = pendingAge !== null;
+    const isBusy = isGenerating || isVideoGenerating;
+    // The age shown in the uploaded photo, which is where the slider starts.
+    const photoAge = ageAnchor?.ageInPhoto ?? null;
+    const videoFrames = videoFramesByStrategy[frameStrategy] ?? [];
+
+    useEffect(() => {
+        return () => {
+            generationScheduler.cancel();
+            videoAbortRef.current?.abort();
+        };
+    }, [generationScheduler]);
+
+    const refreshCacheStats = useCallback(() => {
+        getGenerationCacheStats()
+            .then(setCacheStats)
+            .catch(err => console.warn("Failed to read cache stats:", err));
+    }, []);
+
+    useEffect(() => {
+        refreshCacheStats();
+    }, [refreshCacheStats]);
+
+    // Videos are several megabytes, so release each one's blob once it is replaced or the session is reset.
+    useEffect(() => {
+        return () => {
+            if (generatedVideo) URL.revokeObjectURL(generatedVideo.url);
+        };
+    }, [generatedVideo]);
+
+    const comparedAges = useMemo(() => Object.keys(generatedImages).map(Number).sort((a, b) => a - b), [generatedImages]);
+    // Ages can disappear from under the comparison (e.g. removed from the board), so fall back to the defaults.
+    const beforeAge = compareBeforeAge !== null && compareBeforeAge in generatedImages ? compareBeforeAge : photoAge;
+    const afterAge = compareAfterAge !== null && compareAfterAge in generatedImages ? compareAfterAge : null;
+    const comparison: ComparisonView | null = comparisonMode !== 'off' && beforeAge !== null && beforeAge in generatedImages
+        ? { mode: comparisonMode, imageUrl: generatedImages[beforeAge], label: t('common.ageLabel', { age: beforeAge }) }
+        : null;
+
+    const albumEntries = useMemo<AlbumEntry[]>(() => {
+        if (ageAnchor === null) return [];
+        return Object.entries(generatedImages).map(([age, imageUrl]) => ({
+            age: Number(age),
+            year: ageAnchor.birthYear + Number(age),
+            imageUrl,
+        }));
+    }, [generatedImages, ageAnchor]);
+
+    // Give newly generated ages a fixed spot on the board, so existing cards don't shuffle around.
+    useEffect(() => {
+        const unplaced = Object.keys(generatedImages).map(Number).filter(age => !(age in boardLayout));
+        if (unplaced.length === 0) return;
+        setBoardLayout(prev => {
+            const next = { ...prev };
+            unplaced.forEach(age => {
+                next[age] = defaultCardLayout(Object.keys(next).length, age);
+            });
+            return next;
+        });
+    }, [generatedImages, boardLayout]);
+
+    useEffect(() => {
+        if (sessionId) {
+            saveBoardLayout(sessionId, boardLayout);
+        }
+    }, [sessionId, boardLayout]);
+
+    /**
+     * Moves the timeline onto a new anchor. The uploaded photo becomes the frame for the anchored age,
+     * and frames generated against the old anchor are dropped because their years no longer match.
+     */
+    const applyAgeAnchor = (imageDataUrl: string, anchor: AgeAnchor) => {
+        generationScheduler.cancel();
+        setAgeAnchor(anchor);
+        setPendingAge(null);
+        setTargetAge(anchor.ageInPhoto);
+        setDisplayedAge(anchor.ageInPhoto);
+        setDisplayImage(imageDataUrl);
+        setGeneratedImages({ [anchor.ageInPhoto]: imageDataUrl });
+        setGenerationInfo({});
+        setCompareBeforeAge(null);
+        setCompareAfterAge(null);
+        setVideoFramesByStrategy({});
+    };
+
+    /**
+     * Anchors the timeline on the chosen person's estimated age and starts the interactive session.
+     */
+    const selectSubject = (imageDataUrl: string, detectedFaces: DetectedFace[], index: number) => {
+        setSubjectIndex(index);
+        applyAgeAnchor(imageDataUrl, resolveAgeAnchor(detectedFaces[index].estimatedAge));
+        setAppState('interactive');
+    };
+
+    const addReferenceFiles = async (files: File[]) => {
+        try {
+            const dataUrls = await Promise.all(files.map(file => preprocessImage(file, { maxDimension: UPLOAD_MAX_DIMENSION })));
+            setReferenceImages(prev => [...prev, ...dataUrls].slice(0, MAX_REFERENCE_IMAGES));
+            // Frames generated without these references would look inconsistent next to new ones.
+            setVideoFramesByStrategy({});
+        } catch (err) {
+            console.error("Failed to read reference photos:", err);
+            setErrorNotice({
+                title: { key: 'errors.referencePhotosTitle' },
+                explanation: isLocalizedError(err) ? err.userMessage : { key: 'errors.referencePhotosFallback' },
+            });
+        }
+    };
+
+    const handleRemoveReference = (index: number) => {
+        setReferenceImages(prev => prev.filter((_, i) => i !== index));
+        setVideoFramesByStrategy({});
+    };
 
-    const handleImageUpload = async (e: ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const file = e.target.files[0];
-            const reader = new FileReader();
-            reader.onloadend = async () => {
-                const imageDataUrl = reader.result as string;
-                setUploadedImage(imageDataUrl);
-                setDisplayImage(imageDataUrl);
-                setAppState('estimating');
-                setErrorMessage('');
-                try {
-                    const age = await estimatePersonAge(imageDataUrl);
-                    setEstimatedAge(age);
-                    setTargetAge(age);
-                    setAppState('interactive');
-                } catch (err) {
-                    const message = err instanceof Error ? err.message : "An unknown error occurred.";
-                    console.error("Failed to estimate age:", err);
-                    setErrorMessage(`Could not estimate age: ${message}. Please try a different photo.`);
+    /**
+     * The single way into a session, shared by the file picker, drag and drop, paste and the camera.
+     * The first file is the photo to age; any others become identity references.
+     */
+    const startFromFiles = async (files: File[]) => {
+        if (files.length > 0) {
+            const [file, ...extraFiles] = files;
+            setShowCamera(false);
+            setErrorNotice(null);
+
+            let imageDataUrl: string;
+            try {
+                // Keep the full frame: in a group photo, the subject picker needs everyone in it.
+                imageDataUrl = await preprocessImage(file, { maxDimension: UPLOAD_MAX_DIMENSION });
+            } catch (err) {
+                // Validation errors explain themselves, so show them and stay on the upload screen.
+                console.error("Failed to prepare photo:", err);
+                setErrorNotice({
+                    title: { key: 'errors.photoUnusableTitle' },
+                    explanation: isLocalizedError(err) ? err.userMessage : { key: 'errors.photoUnusableFallback' },
+                });
+                return;
+            }
+
+            setReferenceImages([]);
+            if (extraFiles.length > 0) {
+                addReferenceFiles(extraFiles.slice(0, MAX_REFERENCE_IMAGES));
+            }
+            setUploadedImage(imageDataUrl);
+            setDisplayImage(imageDataUrl);
+            sessionIdFor(imageDataUrl).then(id => {
+                setBoardLayout(loadBoardLayout(id));
+                setSessionId(id);
+            });
+            setAppState('estimating');
+            try {
+                const detectedFaces = await getImageProvider().detectFaces(imageDataUrl);
+                if (detectedFaces.length === 0) {
+                    setErrorNotice({
+                        title: { key: 'errors.noFacesTitle' },
+                        explanation: { key: 'errors.noFacesExplanation' },
+                        action: { key: 'errors.noFacesAction' },
+                    });
                     setAppState('error');
+                    return;
                 }
-            };
-            reader.readAsDataURL(file);
+                setFaces(detectedFaces);
+                if (detectedFaces.length === 1) {
+                    selectSubject(imageDataUrl, detectedFaces, 0);
+                } else {
+                    setAppState('selecting-subject');
+                }
+            } catch (err) {
+                console.error("Failed to estimate age:", err);
+                setErrorNotice(describeError(err, { key: 'errors.context.estimateAge' }));
+                setAppState('error');
+            }
         }
     };
 
+    const handleImageUpload = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from<File>(e.target.files ?? []);
+        // Clear the input so picking the same file again after an error still triggers a change.
+        e.target.value = '';
+        startFromFiles(files);
+    };
+
+    const handleDragOver = (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+        setIsDraggingFile(true);
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        startFromFiles(Array.from<File>(e.dataTransfer.files));
+    };
+
+    // Pasting an image anywhere on the page starts a session, as long as one isn't already underway.
+    const canStartSession = appState === 'idle' || appState === 'error';
+    const startFromFilesRef = useRef(startFromFiles);
+    startFromFilesRef.current = startFromFiles;
+    useEffect(() => {
+        if (!canStartSession) return;
+        const handlePaste = (e: ClipboardEvent) => {
+            const files = Array.from<File>(e.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+            if (files.length === 0) return;
+            e.preventDefault();
+            startFromFilesRef.current(files);
+        };
+        window.addEventListener('paste', handlePaste);
+        return () => window.removeEventListener('paste', handlePaste);
+    }, [canStartSession]);
+
+    const subjectClause = useMemo(
+        () => (subjectIndex === null ? '' : describeSubject(faces, subjectIndex)),
+        [faces, subjectIndex]
+    );
+
     const generateNewAgeImage = useCallback(async (newAge: number) => {
-        if (!uploadedImage || !estimatedAge || newAge === estimatedAge) {
-            setDisplayImage(uploadedImage); // Revert to original if slider is at estimated age
+        if (!uploadedImage || !ageAnchor) return;
+
+        if (newAge === ageAnchor.ageInPhoto) {
+            // Revert to the original when the slider is back at the age in the photo.
+            generationScheduler.cancel();
+            setPendingAge(null);
+            setDisplayImage(uploadedImage);
+            setDisplayedAge(ageAnchor.ageInPhoto);
             return;
-        };
-        
-        setIsGenerating(true);
-        setErrorMessage('');
+        }
         
-        try {
-            const currentYear = new Date().getFullYear();
-            const birthYear = currentYear - estimatedAge;
-            const targetYear = birthYear + newAge;
+        setPendingAge(newAge);
+        setErrorNotice(null);
 
-            const prompt = `Reimagine the person in the original photo at the age of ${newAge}. The photo should look like it was taken in the year ${targetYear}, with era-appropriate clothing, hairstyle, background, and photo quality (e.g., black and white for early years, film grain for mid-century, digital for modern times). Preserve the person's core identity. The output must be a photorealistic image.`;
-            
-            const resultUrl = await generateAgeImage(uploadedImage, prompt);
-            setDisplayImage(resultUrl);
-        } catch (err) {
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
-            console.error(`Failed to generate image for age ${newAge}:`, err);
-            setErrorMessage(`Failed to generate image. ${message}`);
+        const targetYear = ageAnchor.birthYear + newAge;
+
+        const prompt = buildAgePrompt({ preset: promptPreset, age: newAge, year: targetYear, subjectClause, emphasis: sliderMode });
+
+        const outcome = await generationScheduler.run(signal => generateAgeImageCached(uploadedImage, newAge, prompt, signal, referenceImages));
+        // A newer slider value has taken over; its own request will update the view.
+        if (outcome.status === 'superseded') return;
+
+        setPendingAge(null);
+        if (outcome.status === 'fulfilled') {
+            setDisplayImage(outcome.value);
+            setDisplayedAge(newAge);
+            setGeneratedImages(prev => ({ ...prev, [newAge]: outcome.value }));
+            setGenerationInfo(prev => ({ ...prev, [newAge]: { prompt, generatedAt: new Date().toISOString() } }));
+            refreshCacheStats();
+        } else {
+            console.error(`Failed to generate image for age ${newAge}:`, outcome.error);
+            setErrorNotice(describeError(outcome.error, { key: 'errors.context.generateAge', params: { age: newAge } }));
             // Don't change app state, just show error message.
-        } finally {
-            setIsGenerating(false);
         }
-    }, [uploadedImage, estimatedAge]);
+    }, [uploadedImage, ageAnchor, subjectClause, promptPreset, sliderMode, referenceImages, generationScheduler, refreshCacheStats]);
 
     useEffect(() => {
-        if (appState === 'interactive' && debouncedTargetAge !== estimatedAge) {
+        if (appState === 'interactive') {
             generateNewAgeImage(debouncedTargetAge);
-        } else if (appState === 'interactive' && debouncedTargetAge === estimatedAge) {
-            setDisplayImage(uploadedImage); // Ensure original image is shown when at estimated age
         }
-    }, [debouncedTargetAge, appState, estimatedAge, generateNewAgeImage, uploadedImage]);
+    }, [debouncedTargetAge, appState, generateNewAgeImage]);
 
 
     const handleReset = () => {
+        generationScheduler.cancel();
+        videoAbortRef.current?.abort();
+        videoAbortRef.current = null;
         setAppState('idle');
         setUploadedImage(null);
         setDisplayImage(null);
-        setEstimatedAge(null);
+        setAgeAnchor(null);
+        setFaces([]);
+        setReferenceImages([]);
+        setSubjectIndex(null);
         setTargetAge(0);
-        setIsGenerating(false);
+        setPendingAge(null);
+        setDisplayedAge(null);
+        setGeneratedImages({});
+        setGenerationInfo({});
+        setSessionId(null);
+        setBoardLayout({});
+        setShowBoard(false);
         setIsVideoGenerating(false);
         setVideoGenerationMessage('');
-        setGeneratedVideoUrl(null);
+        setVideoFramesByStrategy({});
+        setGeneratedVideo(null);
         setShowVideoModal(false);
-        setErrorMessage('');
+        setShowCamera(false);
+        setComparisonMode('off');
+        setCompareBeforeAge(null);
+        setCompareAfterAge(null);
+        setErrorNotice(null);
     };
 
-    const handleDownload = () => {
-        if (displayImage) {
-            const link = document.createElement('a');
-            link.href = displayImage;
-            const ageString = targetAge === estimatedAge ? 'original' : `age-${targetAge}`;
-            link.download = `age-voyager-${ageString}.jpg`;
-            document.body.appendChild(link);
-            link.click();
-            document.body.removeChild(link);
+    const handleDownload = async () => {
+        if (!displayImage || displayedAge === null) return;
+        const isOriginal = displayedAge === photoAge;
+        try {
+            // The original photo is exported untouched; only generated ages are labelled and tagged.
+            const { blob, extension } = await prepareImageExport(displayImage, {
+                watermark: watermarkExports,
+                provenance: isOriginal || !sessionId ? undefined : {
+                    sourceImageHash: sessionId,
+                    targetAge: displayedAge,
+                    prompt: generationInfo[displayedAge]?.prompt,
+                    model: getImageProvider().imageModel,
+                    createdAt: generationInfo[displayedAge]?.generatedAt || new Date().toISOString(),
+                },
+            });
+            downloadBlob(blob, `age-voyager-${isOriginal ? 'original' : `age-${displayedAge}`}.${extension}`);
+        } catch (err) {
+            console.error("Failed to export image:", err);
+            setErrorNotice(describeError(err, { key: 'errors.context.exportImage' }));
         }
     };
 
     const handleCreateVideo = async () => {
-        if (!uploadedImage || !estimatedAge) return;
+        if (!uploadedImage || !ageAnchor) return;
     
         setIsVideoGenerating(true);
-        setErrorMessage('');
-        setGeneratedVideoUrl(null);
-    
-        const generatedFrames: { age: number; url: string }[] = [];
+        setErrorNotice(null);
+        setGeneratedVideo(null);
+
+        const controller = new AbortController();
+        videoAbortRef.current = controller;
+        const strategy = frameStrategy;
+        // Once the run is stopped, reset or replaced by another session, late results must not touch the state.
+        const isStale = () => controller.signal.aborted || videoAbortRef.current !== controller;
+        const setVideoFrames = (frames: FrameJob[]) => setVideoFramesByStrategy(prev => ({ ...prev, [strategy]: frames }));
+
+        // Resume the previous run if it didn't finish, otherwise start a fresh set of frames.
         // Generate 20 frames for a smooth video, from age 1 to 100
         const agesToGenerate = Array.from({length: 20}, (_, i) => Math.round(1 + i * (99 / 19)));
+        const initialFrames = videoFrames.length > 0 && !isFrameQueueComplete(videoFrames)
+            ? videoFrames
+            : createFrameJobs(agesToGenerate).map(frame =>
+                // Use the original uploaded image if the target age is the same as the age in the photo
+                frame.age === ageAnchor.ageInPhoto ? { ...frame, status: 'done' as const, url: uploadedImage } : frame
+            );
+        setVideoFrames(initialFrames);
         
         try {
-            const currentYear = new Date().getFullYear();
-            const birthYear = currentYear - estimatedAge;
-    
-            for (let i = 0; i < agesToGenerate.length; i++) {
-                const age = agesToGenerate[i];
-                
-                setVideoGenerationMessage(`Generating frame ${i + 1}/${agesToGenerate.length} (age ${age})...`);
-                
-                let frameUrl: string;
-                // Use the original uploaded image if the target age is the same as the estimated age
-                if (age === estimatedAge) {
-                    frameUrl = uploadedImage;
-                } else {
-                    const targetYear = birthYear + age;
-                    const prompt = `Reimagine the person in the original photo at the age of ${age}. The photo should look like it was taken in the year ${targetYear}, with era-appropriate clothing, hairstyle, background, and photo quality. Preserve the person's core identity. The output must be a photorealistic image.`;
-                    frameUrl = await generateAgeImage(uploadedImage, prompt);
+            const { birthYear, ageInPhoto } = ageAnchor;
+            const frameAges = initialFrames.map(frame => frame.age);
+            const neighbourOf = (age: number) => chainNeighbourAge(frameAges, ageInPhoto, age);
+            // Kept to explain why frames failed once the run is over.
+            let lastFrameError: unknown = null;
+            const generateFrame = (sourceUrl: string, age: number, prompt: string, signal: AbortSignal, references: string[]) =>
+                generateAgeImageCached(sourceUrl, age, prompt, signal, references).then(url => {
+                    if (!isStale()) setGenerationInfo(prev => ({ ...prev, [age]: { prompt, generatedAt: new Date().toISOString() } }));
+                    return url;
+                }, error => {
+                    lastFrameError = error;
+                    throw error;
+                });
+
+            const frames = await runFrameQueue(
+                initialFrames,
+                (frame, signal, currentFrames) => {
+                    const targetYear = birthYear + frame.age;
+                    const neighbourAge = strategy === 'independent' ? undefined : neighbourOf(frame.age);
+                    const neighbourUrl = currentFrames.find(other => other.age === neighbourAge)?.url;
+                    if (strategy === 'chained' && neighbourAge !== undefined && neighbourUrl) {
+                        // Age the neighbouring frame by a few years instead of the original by many.
+                        const prompt = buildAgePrompt({ preset: promptPreset, age: frame.age, year: targetYear, subjectClause, sourceAge: neighbourAge });
+                        return generateFrame(neighbourUrl, frame.age, prompt, signal, referenceImages);
+                    }
+                    const references = strategy === 'blended' && neighbourUrl ? [...referenceImages, neighbourUrl] : referenceImages;
+                    const prompt = buildAgePrompt({ preset: promptPreset, age: frame.age, year: targetYear, subjectClause });
+                    return generateFrame(uploadedImage, frame.age, prompt, signal, references);
+                },
+                {
+                    concurrency: videoConcurrency,
+                    // The image service already retries each error by its own policy, so a frame only gets one
+                    // more try here, and only for errors worth retrying, rather than failing the whole video.
+                    maxRetries: 1,
+                    retryDelayFor: frameRetryDelayFor,
+                    signal: controller.signal,
+                    dependsOn: strategy === 'independent' ? undefined : (frame) => neighbourOf(frame.age),
+                    onUpdate: (updatedFrames) => {
+                        if (isStale()) return;
+                        setVideoFrames(updatedFrames);
+                        setGeneratedImages(prev => {
+                            const next = { ...prev };
+                            for (const frame of updatedFrames) {
+                                if (frame.status === 'done' && frame.url) next[frame.age] = frame.url;
+                            }
+                            return next;
+                        });
+                        const doneCount = updatedFrames.filter(frame => frame.status === 'done').length;
+                        setVideoGenerationMessage(t('video.generatingFrames', { done: doneCount, total: updatedFrames.length }));
+                    },
                 }
-                generatedFrames.push({ age, url: frameUrl });
+            );
+
+            const failedCount = frames.filter(frame => frame.status !== 'done').length;
+            if (failedCount > 0) {
+                const cause = describeError(lastFrameError, { key: 'errors.context.generateFrames' });
+                setErrorNotice({
+                    title: { key: 'video.framesFailed', params: { failed: failedCount, total: frames.length } },
+                    explanation: cause.explanation,
+                    action: { key: 'video.framesFailedAction' },
+                    kind: cause.kind,
+                });
+                return;
             }
     
             // Sort frames by age to ensure correct order
-            generatedFrames.sort((a, b) => a.age - b.age);
-            const imageUrls = generatedFrames.map(frame => frame.url);
+            const sortedFrames = [...frames].sort((a, b) => a.age - b.age);
+            const imageUrls = sortedFrames.map(frame => frame.url!);
+            const firstYear = formatYear(birthYear + sortedFrames[0].age);
+            const lastYear = formatYear(birthYear + sortedFrames[sortedFrames.length - 1].age);
+            const timeline: VideoTimeline = {
+                captions: videoTimelineSettings.captions
+                    ? sortedFrames.map(frame => t('video.caption', { age: frame.age, year: formatYear(birthYear + frame.age) }))
+                    : undefined,
+                captionStyle: {
+                    fontFamily: CAPTION_FONT_FAMILIES[videoTimelineSettings.captionFont],
+                    position: videoTimelineSettings.captionPosition,
+                },
+                openingCard: videoTimelineSettings.titleCards
+                    ? { title: t('app.title'), subtitle: `${firstYear} – ${lastYear}`, durationMs: 2000 }
+                    : undefined,
+                closingCard: videoTimelineSettings.titleCards
+                    ? { title: t('video.closingTitle'), subtitle: t('video.closingSubtitle', { first: sortedFrames[0].age, last: sortedFrames[sortedFrames.length - 1].age }), durationMs: 2000 }
+                    : undefined,
+                audio: videoTimelineSettings.soundtrack ?? undefined,
+            };
     
-            setVideoGenerationMessage("Compiling frames into video...");
+            setVideoGenerationMessage(t('video.compiling'));
     
-            const videoUrl = await createVideoFromImages(
+            const video = await createVideoFromImages(
                 imageUrls,
                 500, // 500ms per frame
-                (message) => setVideoGenerationMessage(message)
+                (progress) => {
+                    if (!isStale()) setVideoGenerationMessage(t(VIDEO_PROGRESS_KEYS[progress.stage], { percent: progress.percent ?? 0 }));
+                },
+                videoSettings,
+                timeline
             );
+            // Rendering doesn't watch the signal, so drop a video that finished after the run was stopped.
+            throwIfAborted(controller.signal);
     
-            setGeneratedVideoUrl(videoUrl);
+            if (videoSettings.format && videoSettings.format !== 'auto' && video.format !== videoSettings.format) {
+                setErrorNotice({
+                    title: { key: 'video.formatFallbackTitle', params: { format: video.format.toUpperCase() } },
+                    explanation: {
+                        key: 'video.formatFallbackExplanation',
+                        params: { requested: videoSettings.format.toUpperCase(), format: video.format.toUpperCase() },
+                    },
+                });
+            }
+            setGeneratedVideo(video);
             setShowVideoModal(true);
     
         } catch (err) {
-            const message = err instanceof Error ? err.message : "An unknown error occurred.";
+            if (isAbortError(err)) {
+                // Start Over and opening another session clear the ref; only a Stop leaves this run in it.
+                if (videoAbortRef.current !== controller) return;
+                // The queue leaves interrupted frames as they were, so mark them as waiting for a resume.
+                setVideoFramesByStrategy(prev => ({
+                    ...prev,
+                    [strategy]: prev[strategy]?.map(frame => (frame.status === 'running' ? { ...frame, status: 'pending' as const } : frame)),
+                }));
+                setErrorNotice({
+                    title: { key: 'video.stoppedTitle' },
+                    explanation: { key: 'video.stoppedExplanation' },
+                    action: { key: 'video.stoppedAction' },
+                });
+                return;
+            }
             console.error("Failed to generate video:", err);
-            setErrorMessage(`Failed to create video. ${message}`);
+            setErrorNotice(describeError(err, { key: 'errors.context.createVideo' }));
+        } finally {
+            // A reset has already cleared the progress state, and a newer run may own it by now.
+            if (videoAbortRef.current === controller) {
+                videoAbortRef.current = null;
+                setIsVideoGenerating(false);
+                setVideoGenerationMessage('');
+            }
+            refreshCacheStats();
+        }
+    };
+
+    const handlePresetChange = (preset: PromptPresetId) => {
+        setPromptPreset(preset);
+        // Frames rendered with the old preset would mix styles in the video.
+        setVideoFramesByStrategy({});
+    };
+
+    const handleStopVideo = () => {
+        videoAbortRef.current?.abort();
+    };
+
+    const handleRemoveBoardCard = (age: number) => {
+        setGeneratedImages(({ [age]: _removed, ...rest }) => rest);
+        setGenerationInfo(({ [age]: _removed, ...rest }) => rest);
+        setBoardLayout(({ [age]: _removed, ...rest }) => rest);
+    };
+
+    const handleDownloadAll = async () => {
+        if (!uploadedImage || !sessionId || photoAge === null) return;
+        setIsExportingAll(true);
+        setErrorNotice(null);
+        try {
+            const blob = await createFrameArchive({
+                sourceImage: uploadedImage,
+                sourceImageHash: sessionId,
+                originalAge: photoAge,
+                frames: albumEntries.map(entry => ({ ...entry, ...generationInfo[entry.age] })),
+                video: generatedVideo,
+                model: getImageProvider().imageModel,
+                watermark: watermarkExports,
+            });
+            downloadBlob(blob, 'age-voyager-frames.zip');
+        } catch (err) {
+            console.error("Failed to export frames:", err);
+            setErrorNotice(describeError(err, { key: 'errors.context.exportFrames' }));
         } finally {
-            setIsVideoGenerating(false);
-            setVideoGenerationMessage('');
+            setIsExportingAll(false);
+        }
+    };
+
+    const handleExportSession = async () => {
+        if (!uploadedImage || !ageAnchor || subjectIndex === null) return;
+        setErrorNotice(null);
+        try {
+            const { soundtrack: _soundtrack, ...videoTimeline } = videoTimelineSettings;
+            const blob = await exportSessionFile({
+                sourceImage: uploadedImage,
+                referenceImages,
+                faces,
+                subjectIndex,
+                ageAnchor,
+                promptPreset,
+                sliderMode,
+                frames: Object.keys(generatedImages).map(Number).map(age => ({
+                    age,
+                    imageUrl: generatedImages[age],
+                    ...generationInfo[age],
+                })),
+                frameStrategy,
+                videoSettings,
+                videoTimeline,
+                boardLayout,
+                video: generatedVideo,
+            });
+            downloadBlob(blob, 'age-voyager-session.zip');
+        } catch (err) {
+            console.error("Failed to save session:", err);
+            setErrorNotice(describeError(err, { key: 'errors.context.saveSession' }));
         }
     };
 
+    const handleImportSession = async (e: ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        // Clear the input so picking the same file again still triggers a change.
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const session = await importSessionFile(file);
+            handleReset();
+            const anchorAge = session.ageAnchor.ageInPhoto;
+            setUploadedImage(session.sourceImage);
+            setDisplayImage(session.sourceImage);
+            setReferenceImages(session.referenceImages);
+            setFaces(session.faces);
+            setSubjectIndex(session.subjectIndex);
+            setAgeAnchor(session.ageAnchor);
+            setTargetAge(anchorAge);
+            setDisplayedAge(anchorAge);
+            setPromptPreset(session.promptPreset);
+            setSliderMode(session.sliderMode);
+            setGeneratedImages({
+                [anchorAge]: session.sourceImage,
+                ...Object.fromEntries(session.frames.map(frame => [frame.age, frame.imageUrl])),
+            });
+            setGenerationInfo(Object.fromEntries(session.frames.flatMap(({ age, prompt, generatedAt }) =>
+                // Sessions saved before generation times were recorded only have the prompt.
+                prompt ? [[age, { prompt, generatedAt: generatedAt ?? '' }]] : []
+            )));
+            setFrameStrategy(session.frameStrategy);
+            setVideoSettings(session.videoSettings);
+            setVideoTimelineSettings({ ...session.videoTimeline, soundtrack: null });
+            setBoardLayout(session.boardLayout);
+            setGeneratedVideo(session.video);
+            setSessionId(await sessionIdFor(session.sourceImage));
+            setAppState('interactive');
+        } catch (err) {
+            console.error("Failed to open session:", err);
+            setErrorNotice(describeError(err, { key: 'errors.context.openSession' }));
+        }
+    };
+
+    const handleClearCache = async () => {
+        try {
+            await clearGenerationCache();
+        } catch (err) {
+            console.error("Failed to clear generation cache:", err);
+        }
+        refreshCacheStats();
+    };
+
     const handleCloseModal = () => {
         setShowVideoModal(false);
-        // We don't null out generatedVideoUrl here so it can be reopened if needed,
+        // We don't null out generatedVideo here so it can be reopened if needed,
         // but it will be cleared on reset.
     }
 
 
+    // Keyboard shortcuts for the interactive session. The handler is read through a ref so the
+    // listener doesn't need re-registering on every render.
+    const shortcutsEnabled = appState === 'interactive' && !showVideoModal;
+    const handleShortcutRef = useRef<(action: ShortcutAction) => void>(() => {});
+    handleShortcutRef.current = (action) => {
+        switch (action.type) {
+            case 'step-age':
+                if (!isVideoGenerating) {
+                    setTargetAge(prev => Math.min(MAX_AGE, Math.max(MIN_AGE, prev + action.delta)));
+                }
+                break;
+            case 'download':
+                if (!isBusy) handleDownload();
+                break;
+            case 'create-video':
+                if (!isBusy) handleCreateVideo();
+                break;
+        }
+    };
+    useEffect(() => {
+        if (!shortcutsEnabled) return;
+        const handleKeyDown = (e: KeyboardEvent) => {
+            const action = shortcutForKeyEvent(e);
+            if (!action) return;
+            e.preventDefault();
+            handleShortcutRef.current(action);
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [shortcutsEnabled]);
+
+    /**
+     * What screen reader users should hear about background work. Errors aren't included;
+     * ErrorNotice announces those itself.
+     */
+    const getStatusAnnouncement = (): string => {
+        switch (appState) {
+            case 'estimating':
+                return t('estimating.title');
+            case 'selecting-subject':
+                return t('subject.subtitle', { count: formatNumber(faces.length) });
+            case 'interactive': {
+                if (isVideoGenerating) {
+                    const doneCount = videoFrames.filter(frame => frame.status === 'done').length;
+                    return doneCount < videoFrames.length
+                        ? t('announce.videoProgress', { done: doneCount, total: videoFrames.length })
+                        : t('video.compiling');
+                }
+                if (pendingAge !== null) {
+                    return t('announce.generatingAge', { age: pendingAge });
+                }
+                if (displayedAge !== null && ageAnchor) {
+                    return t('announce.showingAge', { age: displayedAge, year: formatYear(ageAnchor.birthYear + displayedAge) });
+                }
+                return '';
+            }
+            default:
+                return '';
+        }
+    };
+
     const renderContent = () => {
-        const isBusy = isGenerating || isVideoGenerating;
+        const hasUnfinishedFrames = videoFrames.length > 0 && !isFrameQueueComplete(videoFrames);
         switch(appState) {
             case 'idle':
                 return (
@@ -211,16 +818,38 @@ function App() {
                          transition={{ duration: 0.8, type: 'spring' }}
                          className="flex flex-col items-center"
                     >
-                        <label htmlFor="file-upload" className="cursor-pointer group transform hover:scale-105 transition-transform duration-300">
-                             <PolaroidCard 
-                                 caption="Click to begin"
-                                 status="done"
-                             />
+                        {showCamera ? (
+                            <CameraCapture onCapture={(file) => startFromFiles([file])} onCancel={() => setShowCamera(false)} />
+                        ) : (
+                            <>
+                                <label
+                                    htmlFor="file-upload"
+                                    onDragOver={handleDragOver}
+                                    onDragLeave={() => setIsDraggingFile(false)}
+                                    onDrop={handleDrop}
+                                    className={`cursor-pointer group transform hover:scale-105 transition-transform duration-300 rounded-md ${isDraggingFile ? 'scale-105 ring-4 ring-yellow-400' : ''}`}
+                                >
+                                     <PolaroidCard 
+                                         caption={isDraggingFile ? t('idle.dropToBegin') : t('idle.clickToBegin')}
+                                         status="done"
+                                     />
+                                </label>
+                                <input id="file-upload" type="file" className="hidden" accept={SUPPORTED_IMAGE_TYPES.join(', ')} multiple onChange={handleImageUpload} />
+                                <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
+                                    {t('idle.instructions')}
+                                </p>
+                                {isCameraSupported() && (
+                                    <button onClick={() => setShowCamera(true)} className={`${secondaryButtonClasses} mt-4`}>
+                                        {t('idle.useCamera')}
+                                    </button>
+                                )}
+                            </>
+                        )}
+                        <label htmlFor="session-upload" className="mt-4 cursor-pointer text-sm text-neutral-400 hover:text-yellow-400 underline transition-colors">
+                            {t('idle.openSession')}
                         </label>
-                        <input id="file-upload" type="file" className="hidden" accept="image/png, image/jpeg, image/webp" onChange={handleImageUpload} />
-                        <p className="mt-8 font-permanent-marker text-neutral-500 text-center max-w-xs text-lg">
-                            Upload a clear photo of a person to start your journey through time.
-                        </p>
+                        <input id="session-upload" type="file" className="hidden" accept=".zip,application/zip" onChange={handleImportSession} />
+                        {errorNotice && <ErrorNotice notice={errorNotice} className="mt-4 max-w-xs" />}
                     </motion.div>
                 );
             case 'estimating':
@@ -231,52 +860,232 @@ function App() {
                             animate={{ opacity: 1 }}
                             transition={{ delay: 0.2 }}
                         >
-                            <ImageViewer imageUrl={displayImage} isLoading={true} altText="Uploaded photo" />
+                            <ImageViewer imageUrl={displayImage} isLoading={true} altText={t('estimating.photoAlt')} />
                         </motion.div>
-                        <p className="font-permanent-marker text-2xl animate-pulse">Calibrating time machine...</p>
-                        <p className="text-neutral-400">Estimating age to anchor the timeline.</p>
+                        <p className="font-permanent-marker text-2xl animate-pulse">{t('estimating.title')}</p>
+                        <p className="text-neutral-400">{t('estimating.subtitle')}</p>
+                    </div>
+                );
+            case 'selecting-subject':
+                return (
+                    <div className="flex flex-col items-center text-center gap-4">
+                        <ImageViewer
+                            imageUrl={displayImage}
+                            isLoading={false}
+                            altText={t('subject.photoAlt')}
+                            faces={faces}
+                            selectedFaceIndex={subjectIndex}
+                            onSelectFace={(index) => uploadedImage && selectSubject(uploadedImage, faces, index)}
+                        />
+                        <p className="font-permanent-marker text-2xl">{t('subject.title')}</p>
+                        <p className="text-neutral-400">{t('subject.subtitle', { count: formatNumber(faces.length) })}</p>
+                        <button onClick={handleReset} className={secondaryButtonClasses}>
+                            {t('common.startOver')}
+                        </button>
                     </div>
                 );
             case 'interactive':
                 return (
                      <div className="w-full max-w-lg mx-auto flex flex-col items-center gap-6">
-                        <ImageViewer imageUrl={displayImage} isLoading={isGenerating} altText={`Person at age ${targetAge}`} />
-                        {estimatedAge && (
+                        <div className="relative w-full flex flex-col items-center gap-3">
+                            <div
+                                data-age-step-region
+                                tabIndex={0}
+                                role="group"
+                                aria-label={t('viewer.region')}
+                                aria-keyshortcuts="ArrowLeft ArrowRight PageUp PageDown"
+                                className="w-full flex justify-center rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-yellow-400"
+                            >
+                                <ImageViewer
+                                    imageUrl={comparison && afterAge !== null ? generatedImages[afterAge] : displayImage}
+                                    isLoading={isGenerating && (comparison === null || afterAge === null)}
+                                    altText={t('viewer.personAtAge', { age: afterAge ?? displayedAge ?? '' })}
+                                    label={t('common.ageLabel', { age: afterAge ?? displayedAge ?? '' })}
+                                    comparison={comparison}
+                                />
+                            </div>
+                            <ReferenceStrip
+                                images={referenceImages}
+                                maxImages={MAX_REFERENCE_IMAGES}
+                                onAdd={(files) => addReferenceFiles(files.slice(0, MAX_REFERENCE_IMAGES - referenceImages.length))}
+                                onRemove={handleRemoveReference}
+                                disabled={isVideoGenerating}
+                            />
+                        </div>
+                        <p className="text-sm text-neutral-400 -mt-2 h-5">
+                            {t('status.showingAge')} <span className="text-neutral-100">{displayedAge}</span>
+                            {pendingAge !== null && (
+                                <> · {t('status.renderingAge')} <span className="text-yellow-400">{pendingAge}</span>…</>
+                            )}
+                        </p>
+                        {photoAge !== null && (
+                            <ComparisonControls
+                                mode={comparisonMode}
+                                onModeChange={setComparisonMode}
+                                ages={comparedAges}
+                                originalAge={photoAge}
+                                beforeAge={beforeAge ?? photoAge}
+                                afterAge={afterAge}
+                                onBeforeAgeChange={setCompareBeforeAge}
+                                onAfterAgeChange={setCompareAfterAge}
+                            />
+                        )}
+                        {ageAnchor && (
                              <AgeSlider 
                                 value={targetAge}
-                                onChange={(e) => setTargetAge(parseInt(e.target.value, 10))}
-                                min={1}
-                                max={100}
-                                estimatedAge={estimatedAge}
-                                disabled={isBusy}
+                                onChange={setTargetAge}
+                                min={MIN_AGE}
+                                max={MAX_AGE}
+                                birthYear={ageAnchor.birthYear}
+                                mode={sliderMode}
+                                onModeChange={setSliderMode}
+                                disabled={isVideoGenerating}
+                            />
+                        )}
+                        {ageAnchor && uploadedImage && subjectIndex !== null && faces[subjectIndex] && (
+                            <AgeAnchorPanel
+                                face={faces[subjectIndex]}
+                                anchor={ageAnchor}
+                                onApply={(anchor) => applyAgeAnchor(uploadedImage, anchor)}
+                                disabled={isVideoGenerating}
                             />
                         )}
+                        <PromptPresetPicker value={promptPreset} onChange={handlePresetChange} disabled={isVideoGenerating} />
                         <div className="flex items-center gap-4 mt-2">
-                             <button onClick={handleReset} className={secondaryButtonClasses} disabled={isBusy}>
-                                Start Over
+                             <button onClick={handleReset} className={secondaryButtonClasses} disabled={isVideoGenerating}>
+                                {t('common.startOver')}
                             </button>
-                            <button onClick={handleDownload} disabled={isBusy} className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}>
-                                Download Image
+                            <button
+                                onClick={handleDownload}
+                                disabled={isBusy}
+                                className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                                aria-keyshortcuts={SHORTCUT_KEYS.download}
+                            >
+                                {t('actions.downloadImage')}
                             </button>
                         </div>
+                        <label className="flex items-center gap-2 text-sm text-neutral-400 -mt-3">
+                            <input
+                                type="checkbox"
+                                checked={watermarkExports}
+                                onChange={(e) => setWatermarkExports(e.target.checked)}
+                                className="accent-yellow-400"
+                            />
+                            {t('actions.watermark')}
+                        </label>
+                        <p className="text-xs text-neutral-500 -mt-4">{t('shortcuts.hint')}</p>
                          <div className="mt-4 w-full px-4 max-w-xs">
                             <button 
                                 onClick={handleCreateVideo} 
                                 disabled={isBusy} 
+                                aria-keyshortcuts={SHORTCUT_KEYS.createVideo}
                                 className={`${primaryButtonClasses} disabled:opacity-50 disabled:cursor-not-allowed w-full`}
                             >
-                                {isVideoGenerating ? videoGenerationMessage : 'Create Evolution Video'}
+                                {isVideoGenerating
+                                    ? videoGenerationMessage
+                                    : hasUnfinishedFrames ? t('video.resume') : t('video.create')}
                             </button>
+                            <div className="flex items-center justify-center gap-3 mt-3 text-sm text-neutral-400">
+                                {isVideoGenerating ? (
+                                    <button onClick={handleStopVideo} className="underline hover:text-yellow-400 transition-colors">
+                                        {t('video.stop')}
+                                    </button>
+                                ) : (
+                                    <>
+                                        <label className="flex items-center gap-2">
+                                            {t('video.frames')}
+                                            <select
+                                                value={frameStrategy}
+                                                onChange={(e) => setFrameStrategy(e.target.value as FrameStrategy)}
+                                                className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+                                                title={t('video.framesHint')}
+                                            >
+                                                {(Object.keys(FRAME_STRATEGY_LABEL_KEYS) as FrameStrategy[]).map(strategy => (
+                                                    <option key={strategy} value={strategy}>{t(FRAME_STRATEGY_LABEL_KEYS[strategy])}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                        <label className="flex items-center gap-2">
+                                            {t('video.parallel')}
+                                            <select
+                                                value={videoConcurrency}
+                                                onChange={(e) => setVideoConcurrency(parseInt(e.target.value, 10))}
+                                                className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+                                            >
+                                                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                                            </select>
+                                        </label>
+                                    </>
+                                )}
+                            </div>
                         </div>
-                         {errorMessage && <p className="text-red-400 mt-4 text-center">{errorMessage}</p>}
+                        <VideoSettingsPanel settings={videoSettings} onChange={setVideoSettings} disabled={isVideoGenerating} />
+                        <VideoTimelinePanel settings={videoTimelineSettings} onChange={setVideoTimelineSettings} disabled={isVideoGenerating} />
+                        {(isVideoGenerating || hasUnfinishedFrames) && (
+                            <div className="w-full px-4">
+                                <FrameProgressGrid frames={videoFrames} />
+                            </div>
+                        )}
+                        {!isVideoGenerating && (
+                            <StrategyComparison
+                                framesByStrategy={videoFramesByStrategy}
+                                activeStrategy={frameStrategy}
+                                onSelectStrategy={setFrameStrategy}
+                            />
+                        )}
+                        <AlbumExportPanel entries={albumEntries} disabled={isVideoGenerating} />
+                        <div className="flex items-center gap-4">
+                            <button
+                                onClick={handleDownloadAll}
+                                disabled={isBusy || isExportingAll}
+                                className="text-sm text-neutral-400 hover:text-yellow-400 underline transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title={t('actions.downloadAllHint')}
+                            >
+                                {isExportingAll ? t('actions.preparingDownload') : t('actions.downloadAll')}
+                            </button>
+                            <button
+                                onClick={handleExportSession}
+                                disabled={isBusy}
+                                className="text-sm text-neutral-400 hover:text-yellow-400 underline transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                {t('actions.saveSession')}
+                            </button>
+                        </div>
+                        <button
+                            onClick={() => setShowBoard(prev => !prev)}
+                            className="text-sm text-neutral-400 hover:text-yellow-400 underline transition-colors"
+                            aria-expanded={showBoard}
+                        >
+                            {showBoard ? t('actions.hideBoard') : t('actions.showBoard')}
+                        </button>
+                        {showBoard && (
+                            <PolaroidBoard
+                                entries={albumEntries}
+                                layout={boardLayout}
+                                currentAge={displayedAge}
+                                onLayoutChange={setBoardLayout}
+                                onSelectAge={setTargetAge}
+                                onRemove={handleRemoveBoardCard}
+                            />
+                        )}
+                        <button
+                            onClick={handleClearCache}
+                            disabled={isBusy || cacheStats.entries === 0}
+                            className="text-sm text-neutral-500 hover:text-yellow-400 underline transition-colors disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:text-neutral-500"
+                        >
+                            {tPlural('actions.clearCache', cacheStats.entries, {
+                                size: formatNumber(cacheStats.bytes / (1024 * 1024), { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+                            })}
+                        </button>
+                         {errorNotice && <ErrorNotice notice={errorNotice} className="mt-4" />}
                      </div>
                 );
             case 'error':
                  return (
                     <div className="flex flex-col items-center gap-6 text-center">
-                        <p className="text-red-400 max-w-md">{errorMessage}</p>
+                        {errorNotice && <ErrorNotice notice={errorNotice} />}
                          <button onClick={handleReset} className={primaryButtonClasses}>
-                            Try Again
+                            {t('common.tryAgain')}
                         </button>
                     </div>
                  );
@@ -286,11 +1095,13 @@ function App() {
     return (
         <main className="bg-black text-neutral-200 min-h-screen w-full flex flex-col items-center justify-center p-4 pb-24 overflow-hidden relative">
             <div className="absolute top-0 left-0 w-full h-full bg-grid-white/[0.05]"></div>
+            <LanguageSwitcher className="absolute top-4 right-4 z-20" />
+            <p className="sr-only" role="status" aria-live="polite">{getStatusAnnouncement()}</p>
             
              <AnimatePresence>
-                {showVideoModal && generatedVideoUrl && (
+                {showVideoModal && generatedVideo && (
                     <VideoPlayerModal 
-                        videoUrl={generatedVideoUrl}
+                        video={generatedVideo}
                         onClose={handleCloseModal}
                     />
                 )}
@@ -298,8 +1109,8 @@ function App() {
 
             <div className="z-10 flex flex-col items-center justify-center w-full h-full flex-1">
                 <div className="text-center mb-10">
-                    <h1 className="text-6xl md:text-8xl font-caveat font-bold text-neutral-100">Age Voyager</h1>
-                    <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">See yourself at any age from 1 to 100.</p>
+                    <h1 className="text-6xl md:text-8xl font-caveat font-bold text-neutral-100">{t('app.title')}</h1>
+                    <p className="font-permanent-marker text-neutral-300 mt-2 text-xl tracking-wide">{t('app.tagline')}</p>
                 </div>
                 
                 <AnimatePresence mode="wait">
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { FormEvent, useState } from 'react';
+import type { DetectedFace } from '../services/imageProvider';
+import { AgeAnchor, AgeOverrides, resolveAgeAnchor } from '../lib/ageAnchor';
+import { isLocalizedError, MessageDescriptor } from '../lib/i18n';
+import { useI18n } from './I18nProvider';
+
+interface AgeAnchorPanelProps {
+    face: DetectedFace;
+    anchor: AgeAnchor;
+    onApply: (anchor: AgeAnchor) => void;
+    disabled?: boolean;
+}
+
+const inputClasses = "w-24 bg-neutral-800 text-neutral-100 rounded-sm px-2 py-1 disabled:opacity-50";
+
+/**
+ * Parses an optional whole-number field, treating an empty field as "not known".
+ */
+function parseOptional(value: string): number | undefined {
+    const trimmed = value.trim();
+    return trimmed === '' ? undefined : parseInt(trimmed, 10);
+}
+
+const AgeAnchorPanel: React.FC<AgeAnchorPanelProps> = ({ face, anchor, onApply, disabled = false }) => {
+    const { t, tMessage, formatYear } = useI18n();
+    const [isEditing, setIsEditing] = useState(false);
+    const [knownAge, setKnownAge] = useState('');
+    const [birthYear, setBirthYear] = useState('');
+    const [photoDate, setPhotoDate] = useState('');
+    const [error, setError] = useState<MessageDescriptor | null>(null);
+
+    const handleSubmit = (e: FormEvent) => {
+        e.preventDefault();
+        // The date input's value is always YYYY-MM-DD. new Date() would read it as UTC midnight,
+        // which is still the previous day (and, on January 1, the previous year) west of UTC.
+        const overrides: AgeOverrides = {
+            knownAge: parseOptional(knownAge),
+            birthYear: parseOptional(birthYear),
+            photoYear: photoDate ? Number(photoDate.slice(0, 4)) : undefined,
+        };
+        try {
+            onApply(resolveAgeAnchor(face.estimatedAge, overrides));
+            setError(null);
+            setIsEditing(false);
+        } catch (err) {
+            setError(isLocalizedError(err) ? err.userMessage : { key: 'common.raw', params: { text: err instanceof Error ? err.message : String(err) } });
+        }
+    };
+
+    const handleUseEstimate = () => {
+        setKnownAge('');
+        setBirthYear('');
+        setPhotoDate('');
+        setError(null);
+        setIsEditing(false);
+        onApply(resolveAgeAnchor(face.estimatedAge));
+    };
+
+    const confidencePercent = Math.round(face.confidence * 100);
+
+    return (
+        <div className="w-full flex flex-col items-center gap-2 text-sm text-neutral-400">
+            <p>
+                {anchor.source === 'estimate' ? (
+                    <>
+                        {t('ageAnchor.estimatedAge')} <span className="text-neutral-100">{face.estimatedAge}</span>
+                        {' '}{t('ageAnchor.estimateDetails', { min: face.ageRange.min, max: face.ageRange.max, confidence: confidencePercent })}
+                    </>
+                ) : (
+                    <>
+                        {t('ageAnchor.correctedAge')} <span className="text-neutral-100">{anchor.ageInPhoto}</span>
+                        {' '}{t('ageAnchor.correctedDetails', { photoYear: formatYear(anchor.photoYear), birthYear: formatYear(anchor.birthYear) })}
+                        {' '}<span className="text-neutral-500">{t('ageAnchor.estimateWas', { age: face.estimatedAge })}</span>
+                    </>
+                )}
+                {' · '}
+                <button
+                    type="button"
+                    onClick={() => setIsEditing(prev => !prev)}
+                    disabled={disabled}
+                    className="underline hover:text-yellow-400 disabled:opacity-50"
+                    aria-expanded={isEditing}
+                >
+                    {isEditing ? t('common.cancel') : t('ageAnchor.correct')}
+                </button>
+            </p>
+            {isEditing && (
+                <form onSubmit={handleSubmit} className="flex flex-wrap items-end justify-center gap-3">
+                    <label className="flex flex-col items-start gap-1">
+                        {t('ageAnchor.ageInPhoto')}
+                        <input type="number" min={1} max={100} value={knownAge} onChange={(e) => setKnownAge(e.target.value)} className={inputClasses} disabled={disabled} />
+                    </label>
+                    <label className="flex flex-col items-start gap-1">
+                        {t('ageAnchor.birthYear')}
+                        <input type="number" min={1800} max={new Date().getFullYear()} value={birthYear} onChange={(e) => setBirthYear(e.target.value)} className={inputClasses} disabled={disabled} />
+                    </label>
+                    <label className="flex flex-col items-start gap-1">
+                        {t('ageAnchor.photoTaken')}
+                        <input type="date" value={photoDate} onChange={(e) => setPhotoDate(e.target.value)} className="bg-neutral-800 text-neutral-100 rounded-sm px-2 py-1 disabled:opacity-50" disabled={disabled} />
+                    </label>
+                    <button type="submit" disabled={disabled} className="bg-yellow-400 text-black rounded-sm px-3 py-1 hover:bg-yellow-300 disabled:opacity-50">
+                        {t('ageAnchor.apply')}
+                    </button>
+                    {anchor.source === 'manual' && (
+                        <button type="button" onClick={handleUseEstimate} disabled={disabled} className="underline hover:text-yellow-400 disabled:opacity-50">
+                            {t('ageAnchor.useEstimate')}
+                        </button>
+                    )}
+                    {error && <p className="w-full text-center text-red-400" role="alert">{tMessage(error)}</p>}
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default AgeAnchorPanel;
@@ -2,50 +2,158 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useId, useState } from 'react';
+import { decadesBetween, eraForYear, NOTABLE_ERAS } from '../lib/eraUtils';
+import { DECADE_STEP } from '../lib/keyboardShortcuts';
+import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
+
+export type SliderMode = 'age' | 'year';
 
 interface AgeSliderProps {
+    /** The selected age. In year mode the slider shows the matching calendar year. */
     value: number;
-    onChange: (event: React.ChangeEvent<HTMLInputElement>) => void;
+    onChange: (age: number) => void;
     min: number;
     max: number;
-    estimatedAge: number;
+    /** The anchored birth year, used to show which calendar year each age falls in. */
+    birthYear: number;
+    mode: SliderMode;
+    onModeChange: (mode: SliderMode) => void;
     disabled?: boolean;
 }
 
-const AgeSlider: React.FC<AgeSliderProps> = ({ value, onChange, min, max, estimatedAge, disabled = false }) => {
-    const currentYear = new Date().getFullYear();
-    const birthYear = currentYear - estimatedAge;
-    const targetYear = birthYear + value;
+// In year mode the track starts a little before birth, so "before I was born" can be tried and explained.
+const YEARS_BEFORE_BIRTH = 15;
+
+const AgeSlider: React.FC<AgeSliderProps> = ({ value, onChange, min, max, birthYear, mode, onModeChange, disabled = false }) => {
+    const minYear = Math.floor((birthYear - YEARS_BEFORE_BIRTH) / 10) * 10;
+    const maxYear = birthYear + max;
+    const [scrubYear, setScrubYear] = useState(birthYear + value);
+    const { t, formatYear } = useI18n();
+    const hintId = useId();
+
+    // Follow age changes made elsewhere, e.g. a new anchor or switching modes.
+    useEffect(() => {
+        setScrubYear(birthYear + value);
+    }, [birthYear, value, mode]);
+
+    const isYearMode = mode === 'year';
+    const targetYear = isYearMode ? scrubYear : birthYear + value;
+    const targetAge = targetYear - birthYear;
+    const isBeforeRange = isYearMode && targetAge < min;
+    const era = eraForYear(targetYear);
+
+    const sliderMin = isYearMode ? minYear : min;
+    const sliderMax = isYearMode ? maxYear : max;
+    const sliderValue = isYearMode ? scrubYear : value;
+    const toPercent = (position: number) => ((position - sliderMin) / (sliderMax - sliderMin)) * 100;
+    const progress = toPercent(sliderValue);
+    const birthPercent = toPercent(birthYear + min);
+    // In year mode, the years before the first supported age are shaded to show they can't be chosen.
+    const sliderBackground = isYearMode
+        ? `linear-gradient(to right, #262626 ${birthPercent}%, #fbbF24 ${birthPercent}%, #fbbF24 ${Math.max(progress, birthPercent)}%, #404040 ${Math.max(progress, birthPercent)}%)`
+        : `linear-gradient(to right, #fbbF24 ${progress}%, #404040 ${progress}%)`;
 
-    const progress = ((value - min) / (max - min)) * 100;
-    const sliderBackground = `linear-gradient(to right, #fbbF24 ${progress}%, #404040 ${progress}%)`;
+    const moveTo = (position: number) => {
+        if (!isYearMode) {
+            onChange(position);
+            return;
+        }
+        setScrubYear(position);
+        if (position - birthYear >= min) {
+            onChange(position - birthYear);
+        }
+    };
+
+    // Browsers pick their own PageUp/PageDown step for range inputs; make it exactly a decade.
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key !== 'PageUp' && e.key !== 'PageDown') return;
+        e.preventDefault();
+        const delta = e.key === 'PageUp' ? DECADE_STEP : -DECADE_STEP;
+        moveTo(Math.min(sliderMax, Math.max(sliderMin, sliderValue + delta)));
+    };
+
+    const modeButtonClasses = (buttonMode: SliderMode) => cn(
+        "px-2 py-0.5 rounded-sm transition-colors disabled:opacity-50",
+        mode === buttonMode ? "bg-yellow-400 text-black" : "text-neutral-400 hover:text-yellow-400"
+    );
 
     return (
         <div className="w-full flex flex-col items-center gap-4 px-4">
-            <div className="w-full flex justify-between items-baseline font-permanent-marker">
-                 <div className="text-left">
-                    <span className="text-3xl text-yellow-400">{value}</span>
-                    <span className="text-lg text-neutral-400 ml-1"> years old</span>
+            <div className="flex gap-1 text-sm" role="group" aria-label={t('slider.modeGroup')}>
+                <button type="button" onClick={() => onModeChange('age')} disabled={disabled} aria-pressed={mode === 'age'} className={modeButtonClasses('age')}>
+                    {t('slider.byAge')}
+                </button>
+                <button type="button" onClick={() => onModeChange('year')} disabled={disabled} aria-pressed={mode === 'year'} className={modeButtonClasses('year')}>
+                    {t('slider.byYear')}
+                </button>
+            </div>
+            <div className={cn("w-full flex justify-between items-baseline font-permanent-marker", isYearMode && "flex-row-reverse")}>
+                 <div className={isYearMode ? "text-right" : "text-left"}>
+                    <span className={cn("text-3xl", isYearMode ? "text-neutral-100" : "text-yellow-400")}>{isBeforeRange ? '—' : targetAge}</span>
+                    <span className="text-lg text-neutral-400 ml-1"> {t('slider.yearsOld')}</span>
                 </div>
-                 <div className="text-right">
-                     <span className="text-3xl text-neutral-100">{targetYear}</span>
-                     <span className="text-lg text-neutral-400 ml-1"> year</span>
+                 <div className={isYearMode ? "text-left" : "text-right"}>
+                     <span className={cn("text-3xl", isYearMode ? "text-yellow-400" : "text-neutral-100")}>{formatYear(targetYear)}</span>
+                     <span className="text-lg text-neutral-400 ml-1"> {t('slider.year')}</span>
+                     {era && <span className="block text-sm text-neutral-500">{t(era.labelKey)}</span>}
                  </div>
             </div>
-            <input
-                type="range"
-                min={min}
-                max={max}
-                value={value}
-                onChange={onChange}
-                disabled={disabled}
-                className="w-full h-3 bg-neutral-700 rounded-lg appearance-none cursor-pointer range-lg disabled:cursor-not-allowed disabled:opacity-50"
-                style={{ background: sliderBackground }}
-                aria-label="Age slider"
-            />
+            <div className="w-full">
+                <input
+                    type="range"
+                    min={sliderMin}
+                    max={sliderMax}
+                    value={sliderValue}
+                    onChange={(e) => moveTo(parseInt(e.target.value, 10))}
+                    onKeyDown={handleKeyDown}
+                    disabled={disabled}
+                    className="w-full h-3 bg-neutral-700 rounded-lg appearance-none cursor-pointer range-lg disabled:cursor-not-allowed disabled:opacity-50"
+                    style={{ background: sliderBackground }}
+                    aria-label={isYearMode ? t('slider.yearAria') : t('slider.ageAria')}
+                    aria-valuetext={isYearMode
+                        ? t(isBeforeRange ? 'slider.yearBeforeBirthValueText' : 'slider.yearValueText', { year: formatYear(targetYear), age: targetAge })
+                        : t('slider.ageValueText', { age: value, year: formatYear(targetYear) })}
+                    aria-describedby={hintId}
+                />
+                <p id={hintId} className="sr-only">{t('slider.keyboardHint')}</p>
+                {isYearMode && (
+                    <div className="relative w-full h-10 mt-1 text-[10px] text-neutral-500 select-none" aria-hidden="true">
+                        {NOTABLE_ERAS.filter(item => item.end >= minYear && item.start <= maxYear).map(item => {
+                            const left = toPercent(Math.max(item.start, minYear));
+                            const right = toPercent(Math.min(item.end + 1, maxYear));
+                            return (
+                                <div
+                                    key={item.labelKey}
+                                    className={cn(
+                                        "absolute top-0 h-1 rounded-full",
+                                        item === era ? "bg-yellow-400/70" : "bg-neutral-600"
+                                    )}
+                                    style={{ left: `${left}%`, width: `${right - left}%` }}
+                                    title={t(item.labelKey)}
+                                />
+                            );
+                        })}
+                        {decadesBetween(minYear, maxYear).map(decade => (
+                            <div key={decade} className="absolute top-2 -translate-x-1/2 flex flex-col items-center" style={{ left: `${toPercent(decade)}%` }}>
+                                <span className="w-px h-1.5 bg-neutral-500" />
+                                <span>{`'${String(decade % 100).padStart(2, '0')}`}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+            {isBeforeRange && (
+                <p className="text-sm text-red-400 -mt-2" role="alert">
+                    {targetYear < birthYear
+                        ? t('slider.beforeBirth', { year: formatYear(birthYear) })
+                        : t('slider.onlyBaby', { year: formatYear(targetYear) })}
+                    {' '}{t('slider.pickLater', { year: formatYear(birthYear + min) })}
+                </p>
+            )}
         </div>
     );
 };
 
-export default AgeSlider;
\ No newline at end of file
+export default AgeSlider;
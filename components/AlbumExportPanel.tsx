@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { exportAlbumPdf, exportAlbumPng, AlbumEntry, AlbumLayout, AlbumOptions } from '../lib/albumUtils';
+import { downloadBlob } from '../lib/downloadUtils';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales/en';
+
+interface AlbumExportPanelProps {
+    entries: AlbumEntry[];
+    disabled?: boolean;
+}
+
+const LAYOUT_LABEL_KEYS: Record<AlbumLayout, MessageKey> = {
+    grid: 'album.layout.grid',
+    timeline: 'album.layout.timeline',
+    decades: 'album.layout.decades',
+};
+
+const buttonClasses = "font-permanent-marker text-sm text-white bg-white/10 border border-white/50 py-1 px-3 rounded-sm transition-colors hover:bg-white hover:text-black disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:bg-white/10 disabled:hover:text-white";
+
+const AlbumExportPanel: React.FC<AlbumExportPanelProps> = ({ entries, disabled = false }) => {
+    const { t, tPlural, formatYear } = useI18n();
+    const [layout, setLayout] = useState<AlbumLayout>('grid');
+    const [exporting, setExporting] = useState<'png' | 'pdf' | null>(null);
+    const [error, setError] = useState<string>('');
+
+    const handleExport = async (format: 'png' | 'pdf') => {
+        setExporting(format);
+        setError('');
+        // The album is drawn in the active language.
+        const options: AlbumOptions = {
+            title: t('app.title'),
+            caption: ({ age, year }) => t('board.caption', { age, year: formatYear(year) }),
+            decadeHeading: (decade, continued) => t(continued ? 'album.decadeContinued' : 'album.decade', { decade: formatYear(decade) }),
+        };
+        try {
+            const blob = format === 'png'
+                ? await exportAlbumPng(entries, layout, options)
+                : await exportAlbumPdf(entries, layout, options);
+            downloadBlob(blob, `age-voyager-album-${layout}.${format}`);
+        } catch (err) {
+            console.error("Failed to export album:", err);
+            setError(t('album.exportFailed'));
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    const isDisabled = disabled || entries.length === 0 || exporting !== null;
+
+    return (
+        <div className="w-full flex flex-col items-center gap-2 text-sm text-neutral-400">
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <span>{tPlural('album.summary', entries.length)}</span>
+                <select
+                    value={layout}
+                    onChange={(e) => setLayout(e.target.value as AlbumLayout)}
+                    className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+                    aria-label={t('album.layoutLabel')}
+                >
+                    {(Object.keys(LAYOUT_LABEL_KEYS) as AlbumLayout[]).map(key => (
+                        <option key={key} value={key}>{t(LAYOUT_LABEL_KEYS[key])}</option>
+                    ))}
+                </select>
+                <button onClick={() => handleExport('png')} disabled={isDisabled} className={buttonClasses}>
+                    {exporting === 'png' ? t('album.exporting') : 'PNG'}
+                </button>
+                <button onClick={() => handleExport('pdf')} disabled={isDisabled} className={buttonClasses}>
+                    {exporting === 'pdf' ? t('album.exporting') : 'PDF'}
+                </button>
+            </div>
+            {error && <p className="text-red-400 text-center">{error}</p>}
+        </div>
+    );
+};
+
+export default AlbumExportPanel;
@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef, useState } from 'react';
+import type { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
+
+interface CameraCaptureProps {
+    /** Called with the accepted photo, ready for the normal upload path. */
+    onCapture: (file: File) => void;
+    onCancel: () => void;
+    /** Seconds counted down before the photo is taken. */
+    countdownSeconds?: number;
+}
+
+/**
+ * Reports whether this browser can open a camera at all.
+ */
+export function isCameraSupported(): boolean {
+    return typeof navigator !== 'undefined' && Boolean(navigator.mediaDevices?.getUserMedia);
+}
+
+function describeCameraError(error: unknown): MessageKey {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name === 'NotAllowedError' || name === 'SecurityError') {
+        return 'camera.blocked';
+    }
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+        return 'camera.notFound';
+    }
+    if (name === 'NotReadableError') {
+        return 'camera.inUse';
+    }
+    return 'camera.failed';
+}
+
+const buttonClasses = "font-permanent-marker text-lg text-center py-2 px-6 rounded-sm transform transition-transform duration-200 hover:scale-105";
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel, countdownSeconds = 3 }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [stream, setStream] = useState<MediaStream | null>(null);
+    const [error, setError] = useState<MessageKey | null>(null);
+    const [countdown, setCountdown] = useState<number | null>(null);
+    const [capture, setCapture] = useState<{ url: string; blob: Blob } | null>(null);
+    const { t } = useI18n();
+
+    useEffect(() => {
+        let cancelled = false;
+        let opened: MediaStream | null = null;
+        navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 1280 } }, audio: false })
+            .then(mediaStream => {
+                if (cancelled) {
+                    mediaStream.getTracks().forEach(track => track.stop());
+                    return;
+                }
+                opened = mediaStream;
+                setStream(mediaStream);
+            })
+            .catch(err => {
+                console.error("Failed to open camera:", err);
+                if (!cancelled) setError(describeCameraError(err));
+            });
+        return () => {
+            cancelled = true;
+            opened?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    useEffect(() => {
+        if (videoRef.current && stream) {
+            videoRef.current.srcObject = stream;
+        }
+    }, [stream, capture]);
+
+    useEffect(() => {
+        return () => {
+            if (capture) URL.revokeObjectURL(capture.url);
+        };
+    }, [capture]);
+
+    const takePhoto = () => {
+        const video = videoRef.current;
+        if (!video || video.videoWidth === 0) return;
+        const canvas = document.createElement('canvas');
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+        // Keep the photo mirrored like the preview, so it matches what the user saw.
+        ctx.translate(canvas.width, 0);
+        ctx.scale(-1, 1);
+        ctx.drawImage(video, 0, 0);
+        canvas.toBlob(blob => {
+            if (blob) setCapture({ url: URL.createObjectURL(blob), blob });
+        }, 'image/jpeg', 0.92);
+    };
+
+    useEffect(() => {
+        if (countdown === null) return;
+        if (countdown === 0) {
+            setCountdown(null);
+            takePhoto();
+            return;
+        }
+        const timer = setTimeout(() => setCountdown(countdown - 1), 1000);
+        return () => clearTimeout(timer);
+    }, [countdown]);
+
+    const handleUsePhoto = () => {
+        if (capture) {
+            onCapture(new File([capture.blob], 'camera-photo.jpg', { type: 'image/jpeg' }));
+        }
+    };
+
+    return (
+        <div className="flex flex-col items-center gap-4 w-full max-w-lg">
+            <div className="relative w-full aspect-square rounded-lg shadow-2xl overflow-hidden bg-neutral-900 flex items-center justify-center">
+                {error ? (
+                    <p className="text-red-400 text-center p-6">{t(error)}</p>
+                ) : capture ? (
+                    <img src={capture.url} alt={t('camera.capturedAlt')} className="absolute inset-0 w-full h-full object-cover" />
+                ) : (
+                    <video
+                        ref={videoRef}
+                        autoPlay
+                        playsInline
+                        muted
+                        className="absolute inset-0 w-full h-full object-cover -scale-x-100"
+                        aria-label={t('camera.previewLabel')}
+                    />
+                )}
+                {!error && !stream && !capture && (
+                    <p className="relative font-permanent-marker text-neutral-400 animate-pulse">{t('camera.starting')}</p>
+                )}
+                {countdown !== null && countdown > 0 && (
+                    <span className="relative font-permanent-marker text-8xl text-yellow-400 drop-shadow-lg" aria-live="assertive">
+                        {countdown}
+                    </span>
+                )}
+            </div>
+            <div className="flex items-center gap-4">
+                <button onClick={onCancel} className={`${buttonClasses} text-white bg-white/10 border-2 border-white/80 hover:bg-white hover:text-black`}>
+                    {t('common.cancel')}
+                </button>
+                {capture ? (
+                    <>
+                        <button onClick={() => setCapture(null)} className={`${buttonClasses} text-white bg-white/10 border-2 border-white/80 hover:bg-white hover:text-black`}>
+                            {t('camera.retake')}
+                        </button>
+                        <button onClick={handleUsePhoto} className={`${buttonClasses} text-black bg-yellow-400 hover:bg-yellow-300`}>
+                            {t('camera.usePhoto')}
+                        </button>
+                    </>
+                ) : (
+                    <button
+                        onClick={() => setCountdown(countdownSeconds)}
+                        disabled={!stream || countdown !== null}
+                        className={`${buttonClasses} text-black bg-yellow-400 hover:bg-yellow-300 disabled:opacity-50 disabled:cursor-not-allowed`}
+                    >
+                        {t('camera.takePhoto')}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default CameraCapture;
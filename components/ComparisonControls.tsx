@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import type { ComparisonMode } from './ImageViewer';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales/en';
+
+interface ComparisonControlsProps {
+    mode: ComparisonMode;
+    onModeChange: (mode: ComparisonMode) => void;
+    /** Every age with an image available to compare. */
+    ages: number[];
+    /** The age in the original photo, marked in the age lists. */
+    originalAge: number;
+    beforeAge: number;
+    /** The "after" age, or null to follow the slider. */
+    afterAge: number | null;
+    onBeforeAgeChange: (age: number) => void;
+    onAfterAgeChange: (age: number | null) => void;
+    disabled?: boolean;
+}
+
+const MODE_LABEL_KEYS: Record<ComparisonMode, MessageKey> = {
+    off: 'comparison.mode.off',
+    split: 'comparison.mode.split',
+    'side-by-side': 'comparison.mode.sideBySide',
+    blink: 'comparison.mode.blink',
+};
+
+const ComparisonControls: React.FC<ComparisonControlsProps> = ({
+    mode,
+    onModeChange,
+    ages,
+    originalAge,
+    beforeAge,
+    afterAge,
+    onBeforeAgeChange,
+    onAfterAgeChange,
+    disabled = false,
+}) => {
+    const { t } = useI18n();
+    const ageLabel = (age: number) => t(age === originalAge ? 'comparison.originalAge' : 'common.ageLabel', { age });
+
+    return (
+        <div className="w-full flex flex-col items-center gap-2 text-sm text-neutral-400">
+            <div className="flex items-center gap-1" role="radiogroup" aria-label={t('comparison.modeGroup')}>
+                <span className="mr-1">{t('comparison.label')}</span>
+                {(Object.keys(MODE_LABEL_KEYS) as ComparisonMode[]).map(option => (
+                    <button
+                        key={option}
+                        role="radio"
+                        aria-checked={mode === option}
+                        onClick={() => onModeChange(option)}
+                        disabled={disabled}
+                        className={cn(
+                            "px-2 py-0.5 rounded-sm border transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                            mode === option
+                                ? "border-yellow-400 text-yellow-400"
+                                : "border-white/20 hover:border-yellow-400 hover:text-yellow-400"
+                        )}
+                    >
+                        {t(MODE_LABEL_KEYS[option])}
+                    </button>
+                ))}
+            </div>
+            {mode !== 'off' && (
+                <div className="flex items-center gap-2">
+                    <select
+                        value={beforeAge}
+                        onChange={(e) => onBeforeAgeChange(Number(e.target.value))}
+                        disabled={disabled}
+                        className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+                        aria-label={t('comparison.beforeAge')}
+                    >
+                        {ages.map(age => <option key={age} value={age}>{ageLabel(age)}</option>)}
+                    </select>
+                    <span>{t('comparison.versus')}</span>
+                    <select
+                        value={afterAge ?? ''}
+                        onChange={(e) => onAfterAgeChange(e.target.value === '' ? null : Number(e.target.value))}
+                        disabled={disabled}
+                        className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+                        aria-label={t('comparison.afterAge')}
+                    >
+                        <option value="">{t('comparison.currentAge')}</option>
+                        {ages.map(age => <option key={age} value={age}>{ageLabel(age)}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ComparisonControls;
@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import type { ErrorNotice as ErrorNoticeContent } from '../services/errors';
+import { useI18n } from './I18nProvider';
+
+interface ErrorNoticeProps {
+    notice: ErrorNoticeContent;
+    className?: string;
+}
+
+/**
+ * Explains an error: what happened, why, and what the user can do next.
+ */
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ notice, className }) => {
+    const { tMessage } = useI18n();
+    return (
+        <div role="alert" className={cn("max-w-md text-center flex flex-col gap-1", className)}>
+            <p className="font-permanent-marker text-lg text-red-400">{tMessage(notice.title)}</p>
+            <p className="text-sm text-neutral-300">{tMessage(notice.explanation)}</p>
+            {notice.action && <p className="text-sm text-neutral-400">{tMessage(notice.action)}</p>}
+        </div>
+    );
+};
+
+export default ErrorNotice;
@@ -4,19 +4,22 @@
 */
 import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { MessageKey } from '../locales/en';
+import { useI18n } from './I18nProvider';
 
-const REMIX_IDEAS = [
-    "to create an evolution video of your life.",
-    "to see yourself as a historical figure.",
-    "to create a family tree visualization.",
-    "to generate a yearbook photo for any decade.",
-    "to create a fantasy version of yourself.",
-    "to design a superhero at different life stages.",
-    "to place yourself in famous historical events.",
+const REMIX_IDEAS: MessageKey[] = [
+    'footer.idea.video',
+    'footer.idea.historicalFigure',
+    'footer.idea.familyTree',
+    'footer.idea.yearbook',
+    'footer.idea.fantasy',
+    'footer.idea.superhero',
+    'footer.idea.historicalEvents',
 ];
 
 const Footer = () => {
     const [index, setIndex] = useState(0);
+    const { t } = useI18n();
 
     useEffect(() => {
         const intervalId = setInterval(() => {
@@ -31,10 +34,10 @@ const Footer = () => {
             <div className="max-w-screen-xl mx-auto flex justify-between items-center gap-4 px-4">
                 {/* Left Side */}
                 <div className="hidden md:flex items-center gap-4 text-neutral-500 whitespace-nowrap">
-                    <p>Powered by Gemini 2.5 Pro & Flash Image</p>
+                    <p>{t('footer.poweredBy')}</p>
                     <span className="text-neutral-700" aria-hidden="true">|</span>
                     <p>
-                        Created by{' '}
+                        {t('footer.createdBy')}{' '}
                         <a
                             href="https://x.com/ammaar"
                             target="_blank"
@@ -49,7 +52,7 @@ const Footer = () => {
                 {/* Right Side */}
                 <div className="flex-grow flex justify-end items-center gap-4 sm:gap-6">
                     <div className="hidden lg:flex items-center gap-2 text-neutral-400 text-right min-w-0">
-                        <span className="flex-shrink-0">Remix this app...</span>
+                        <span className="flex-shrink-0">{t('footer.remix')}</span>
                         <div className="relative w-64 h-5">
                             <AnimatePresence mode="wait">
                                 <motion.span
@@ -60,7 +63,7 @@ const Footer = () => {
                                     transition={{ duration: 0.4, ease: "easeInOut" }}
                                     className="absolute inset-0 font-medium text-neutral-200 whitespace-nowrap text-left"
                                 >
-                                    {REMIX_IDEAS[index]}
+                                    {t(REMIX_IDEAS[index])}
                                 </motion.span>
                             </AnimatePresence>
                         </div>
@@ -73,7 +76,7 @@ const Footer = () => {
                             rel="noopener noreferrer"
                             className="font-permanent-marker text-sm sm:text-base text-center text-black bg-yellow-400 py-2 px-4 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:-rotate-2 hover:bg-yellow-300 shadow-[1px_1px_0px_1px_rgba(0,0,0,0.2)] whitespace-nowrap"
                         >
-                            Apps on AI Studio
+                            {t('footer.appsOnStudio')}
                         </a>
                         <a
                             href="https://gemini.google.com/"
@@ -81,7 +84,7 @@ const Footer = () => {
                             rel="noopener noreferrer"
                             className="font-permanent-marker text-sm sm:text-base text-center text-white bg-white/10 backdrop-blur-sm border border-white/50 py-2 px-4 rounded-sm transform transition-transform duration-200 hover:scale-105 hover:rotate-2 hover:bg-white hover:text-black whitespace-nowrap"
                         >
-                            Chat with Gemini
+                            {t('footer.chatWithGemini')}
                         </a>
                     </div>
                 </div>
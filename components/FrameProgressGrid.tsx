@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { cn } from '../lib/utils';
+import type { FrameJob, FrameStatus } from '../lib/frameQueue';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales/en';
+
+interface FrameProgressGridProps {
+    frames: FrameJob[];
+}
+
+const statusClasses: Record<FrameStatus, string> = {
+    pending: 'border-neutral-700 text-neutral-500',
+    running: 'border-yellow-400 text-yellow-400 animate-pulse',
+    done: 'border-neutral-300 text-white',
+    error: 'border-red-500 text-red-400',
+};
+
+const STATUS_LABEL_KEYS: Record<FrameStatus, MessageKey> = {
+    pending: 'frames.status.pending',
+    running: 'frames.status.running',
+    done: 'frames.status.done',
+    error: 'frames.status.error',
+};
+
+const FrameProgressGrid: React.FC<FrameProgressGridProps> = ({ frames }) => {
+    const { t } = useI18n();
+    const doneCount = frames.filter(frame => frame.status === 'done').length;
+
+    return (
+        <div className="w-full">
+            <p className="text-xs text-neutral-400 mb-2 text-center">
+                {t('frames.ready', { done: doneCount, total: frames.length })}
+            </p>
+            <div className="grid grid-cols-5 sm:grid-cols-10 gap-1">
+                {frames.map(frame => (
+                    <div
+                        key={frame.age}
+                        title={frame.blockedByAge !== undefined
+                            ? t('frames.blocked', { age: frame.age, dependency: frame.blockedByAge })
+                            : t('frames.tooltip', { age: frame.age, status: t(STATUS_LABEL_KEYS[frame.status]) })}
+                        className={cn(
+                            'relative aspect-square rounded-sm border-2 overflow-hidden bg-neutral-900 flex items-center justify-center',
+                            statusClasses[frame.status]
+                        )}
+                    >
+                        {frame.status === 'done' && frame.url && (
+                            <img src={frame.url} alt="" className="absolute inset-0 w-full h-full object-cover opacity-70" />
+                        )}
+                        <span className="relative text-[10px] font-bold drop-shadow-[0_1px_1px_rgba(0,0,0,0.9)]">
+                            {frame.status === 'error' ? '!' : frame.age}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default FrameProgressGrid;
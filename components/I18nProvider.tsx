@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { MessageKey } from '../locales/en';
+import {
+    detectLocale,
+    formatNumber,
+    formatYear,
+    saveLocale,
+    translate,
+    translatePlural,
+    Locale,
+    MessageDescriptor,
+    MessageParams,
+    PluralMessageKey,
+} from '../lib/i18n';
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    tPlural: (key: PluralMessageKey, count: number, params?: MessageParams) => string;
+    /** Renders a message that was stored as a key, such as an error notice. */
+    tMessage: (message: MessageDescriptor) => string;
+    formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+    formatYear: (year: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Provides the active language to the app and keeps the document's `lang` attribute in step with it.
+ */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        setLocaleState(next);
+        saveLocale(next);
+    }, []);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+        tPlural: (key, count, params) => translatePlural(locale, key, count, params),
+        tMessage: ({ key, params }) => translate(locale, key, params),
+        formatNumber: (value, options) => formatNumber(locale, value, options),
+        formatYear: (year) => formatYear(locale, year),
+    }), [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+/**
+ * Gives a component the active language and its translation and formatting helpers.
+ * @throws {Error} If used outside an I18nProvider.
+ */
+export function useI18n(): I18nContextValue {
+    const context = useContext(I18nContext);
+    if (!context) {
+        throw new Error("useI18n must be used inside an I18nProvider.");
+    }
+    return context;
+}
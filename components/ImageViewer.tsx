@@ -2,13 +2,33 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import type { DetectedFace, FaceBox } from '../services/imageProvider';
+import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
+
+export type ComparisonMode = 'off' | 'split' | 'side-by-side' | 'blink';
+
+/** A second image shown next to the main one, e.g. the original photo beside the current age. */
+export interface ComparisonView {
+    mode: Exclude<ComparisonMode, 'off'>;
+    imageUrl: string;
+    label: string;
+}
 
 interface ImageViewerProps {
     imageUrl: string | null;
     isLoading: boolean;
     altText: string;
+    /** Caption for the main image, shown when comparing. */
+    label?: string;
+    /** The "before" image. The main image is treated as "after". */
+    comparison?: ComparisonView | null;
+    /** Faces to outline on top of the image. Boxes are clickable when onSelectFace is set. */
+    faces?: DetectedFace[];
+    selectedFaceIndex?: number | null;
+    onSelectFace?: (index: number) => void;
 }
 
 const LoadingSpinner = () => (
@@ -20,9 +40,146 @@ const LoadingSpinner = () => (
     </div>
 );
 
-const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading, altText }) => {
+/**
+ * Maps a box in image coordinates to CSS percentages inside the square, object-contain viewer.
+ * @param box The face box, as fractions of the image size.
+ * @param aspectRatio The image's width divided by its height.
+ */
+function toViewerStyle(box: FaceBox, aspectRatio: number): React.CSSProperties {
+    // object-contain fits the long side to the square and letterboxes the short side evenly.
+    const scaleX = Math.min(1, aspectRatio);
+    const scaleY = Math.min(1, 1 / aspectRatio);
+    return {
+        left: `${(box.x * scaleX - (scaleX - 1) / 2) * 100}%`,
+        top: `${(box.y * scaleY - (scaleY - 1) / 2) * 100}%`,
+        width: `${box.width * scaleX * 100}%`,
+        height: `${box.height * scaleY * 100}%`,
+    };
+}
+
+// How long each image stays up in blink mode.
+const BLINK_INTERVAL_MS = 800;
+
+const ImageLabel: React.FC<{ text: string; className?: string }> = ({ text, className }) => (
+    <span className={cn("absolute bottom-2 z-10 bg-black/70 text-white text-xs font-permanent-marker px-2 py-0.5 rounded-sm pointer-events-none", className)}>
+        {text}
+    </span>
+);
+
+interface ComparisonLayersProps {
+    before: ComparisonView;
+    afterUrl: string;
+    afterLabel: string;
+    altText: string;
+}
+
+/**
+ * Renders the before and after images for one comparison mode.
+ */
+const ComparisonLayers: React.FC<ComparisonLayersProps> = ({ before, afterUrl, afterLabel, altText }) => {
+    const { t } = useI18n();
+    const containerRef = useRef<HTMLDivElement>(null);
+    // Percentage of the width showing the "before" image in split mode.
+    const [splitPercent, setSplitPercent] = useState(50);
+    const [showBefore, setShowBefore] = useState(false);
+
+    useEffect(() => {
+        if (before.mode !== 'blink') return;
+        const timer = setInterval(() => setShowBefore(prev => !prev), BLINK_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [before.mode]);
+
+    const moveSplitTo = (clientX: number) => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        if (!rect || rect.width === 0) return;
+        setSplitPercent(Math.min(100, Math.max(0, ((clientX - rect.left) / rect.width) * 100)));
+    };
+
+    const handleSplitKeyDown = (e: React.KeyboardEvent) => {
+        const step = e.shiftKey ? 10 : 2;
+        if (e.key === 'ArrowLeft') setSplitPercent(prev => Math.max(0, prev - step));
+        else if (e.key === 'ArrowRight') setSplitPercent(prev => Math.min(100, prev + step));
+        else return;
+        e.preventDefault();
+    };
+
+    if (before.mode === 'side-by-side') {
+        return (
+            <div className="absolute inset-0 grid grid-cols-2 gap-0.5 bg-black">
+                <div className="relative overflow-hidden">
+                    <img src={before.imageUrl} alt={before.label} className="absolute inset-0 w-full h-full object-contain" />
+                    <ImageLabel text={before.label} className="left-2" />
+                </div>
+                <div className="relative overflow-hidden">
+                    <img src={afterUrl} alt={altText} className="absolute inset-0 w-full h-full object-contain" />
+                    <ImageLabel text={afterLabel} className="right-2" />
+                </div>
+            </div>
+        );
+    }
+
+    if (before.mode === 'blink') {
+        return (
+            <div className="absolute inset-0">
+                <img src={afterUrl} alt={altText} className="absolute inset-0 w-full h-full object-contain" />
+                <img
+                    src={before.imageUrl}
+                    alt={before.label}
+                    className={cn("absolute inset-0 w-full h-full object-contain transition-opacity duration-150", showBefore ? "opacity-100" : "opacity-0")}
+                />
+                <ImageLabel text={showBefore ? before.label : afterLabel} className="left-1/2 -translate-x-1/2" />
+            </div>
+        );
+    }
+
+    return (
+        <div
+            ref={containerRef}
+            className="absolute inset-0 cursor-ew-resize select-none touch-none"
+            onPointerDown={(e) => {
+                e.currentTarget.setPointerCapture(e.pointerId);
+                moveSplitTo(e.clientX);
+            }}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) moveSplitTo(e.clientX);
+            }}
+        >
+            <img src={afterUrl} alt={altText} className="absolute inset-0 w-full h-full object-contain" draggable={false} />
+            <img
+                src={before.imageUrl}
+                alt={before.label}
+                className="absolute inset-0 w-full h-full object-contain"
+                style={{ clipPath: `inset(0 ${100 - splitPercent}% 0 0)` }}
+                draggable={false}
+            />
+            <div
+                role="slider"
+                tabIndex={0}
+                aria-label={t('viewer.divider', { before: before.label, after: afterLabel })}
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(splitPercent)}
+                onKeyDown={handleSplitKeyDown}
+                className="absolute top-0 bottom-0 z-10 w-1 -ml-0.5 bg-yellow-400 focus:outline-none focus:ring-2 focus:ring-white"
+                style={{ left: `${splitPercent}%` }}
+            >
+                <span className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-7 h-7 rounded-full bg-yellow-400 text-black text-xs flex items-center justify-center shadow-lg">
+                    ⇔
+                </span>
+            </div>
+            <ImageLabel text={before.label} className="left-2" />
+            <ImageLabel text={afterLabel} className="right-2" />
+        </div>
+    );
+};
+
+const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading, altText, label = '', comparison = null, faces, selectedFaceIndex = null, onSelectFace }) => {
+    const { t } = useI18n();
+    const [aspectRatio, setAspectRatio] = useState<number | null>(null);
+    const isComparing = comparison !== null && imageUrl !== null;
+
     return (
-        <div className="relative w-full max-w-lg aspect-square rounded-lg shadow-2xl overflow-hidden bg-neutral-900 flex items-center justify-center">
+        <div className="relative w-full max-w-lg aspect-square rounded-lg shadow-2xl overflow-hidden bg-neutral-900 flex items-center justify-center" aria-busy={isLoading}>
             <AnimatePresence>
                 {isLoading && (
                      <motion.div
@@ -35,8 +192,11 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading, altText
                     </motion.div>
                 )}
             </AnimatePresence>
+            {isComparing && (
+                <ComparisonLayers before={comparison} afterUrl={imageUrl} afterLabel={label} altText={altText} />
+            )}
             <AnimatePresence mode="wait">
-                 {imageUrl && (
+                 {imageUrl && !isComparing && (
                     <motion.img
                         key={imageUrl} // This makes framer-motion treat image changes as new elements
                         src={imageUrl}
@@ -45,10 +205,40 @@ const ImageViewer: React.FC<ImageViewerProps> = ({ imageUrl, isLoading, altText
                         animate={{ opacity: 1, scale: 1 }}
                         exit={{ opacity: 0, scale: 0.98 }}
                         transition={{ duration: 0.4, ease: 'easeInOut' }}
-                        className="absolute inset-0 w-full h-full object-cover"
+                        className="absolute inset-0 w-full h-full object-contain"
+                        onLoad={(e) => setAspectRatio(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
                     />
                 )}
             </AnimatePresence>
+            {faces && aspectRatio !== null && !isLoading && !isComparing && (
+                <div className="absolute inset-0 z-10">
+                    {faces.map((face, index) => (
+                        <button
+                            key={index}
+                            type="button"
+                            onClick={() => onSelectFace?.(index)}
+                            disabled={!onSelectFace}
+                            style={toViewerStyle(face.box, aspectRatio)}
+                            className={cn(
+                                "absolute rounded-md border-2 transition-colors focus:outline-none focus:ring-2 focus:ring-yellow-400",
+                                index === selectedFaceIndex
+                                    ? "border-yellow-400 bg-yellow-400/20"
+                                    : "border-white/80 hover:border-yellow-400 hover:bg-yellow-400/10",
+                                !onSelectFace && "cursor-default"
+                            )}
+                            aria-label={t('viewer.selectFace', {
+                                person: face.description || t('viewer.personNumber', { number: index + 1 }),
+                                age: face.estimatedAge,
+                            })}
+                            aria-pressed={index === selectedFaceIndex}
+                        >
+                            <span className="absolute left-0 -top-6 whitespace-nowrap bg-black/70 text-white text-xs font-permanent-marker px-1.5 py-0.5 rounded-sm">
+                                {index + 1} · ~{face.estimatedAge}
+                            </span>
+                        </button>
+                    ))}
+                </div>
+            )}
         </div>
     );
 };
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { LOCALE_LABELS, Locale } from '../lib/i18n';
+import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
+
+interface LanguageSwitcherProps {
+    className?: string;
+}
+
+/**
+ * Lets the user pick the UI language. Each option is shown in its own language so it can be found either way.
+ */
+const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className }) => {
+    const { locale, setLocale, t } = useI18n();
+
+    return (
+        <label className={cn("flex items-center gap-2 text-sm text-neutral-400", className)}>
+            <span className="sr-only">{t('language.label')}</span>
+            <select
+                value={locale}
+                onChange={(e) => setLocale(e.target.value as Locale)}
+                className="bg-neutral-800 text-neutral-100 rounded-sm px-1"
+            >
+                {(Object.keys(LOCALE_LABELS) as Locale[]).map(option => (
+                    <option key={option} value={option} lang={option}>{LOCALE_LABELS[option]}</option>
+                ))}
+            </select>
+        </label>
+    );
+};
+
+export default LanguageSwitcher;
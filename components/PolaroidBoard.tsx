@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef } from 'react';
+import PolaroidCard from './PolaroidCard';
+import { DraggableCard } from './ui/draggable-card';
+import { cn } from '../lib/utils';
+import { defaultCardLayout, BoardCardLayout, BoardLayout } from '../lib/boardLayout';
+import type { AlbumEntry } from '../lib/albumUtils';
+import { useI18n } from './I18nProvider';
+
+interface PolaroidBoardProps {
+    entries: AlbumEntry[];
+    layout: BoardLayout;
+    currentAge: number | null;
+    onLayoutChange: (layout: BoardLayout) => void;
+    onSelectAge: (age: number) => void;
+    onRemove: (age: number) => void;
+}
+
+const controlClasses = "bg-black/70 text-white rounded-full h-6 w-6 flex items-center justify-center text-xs hover:bg-yellow-400 hover:text-black transition-colors";
+
+const PolaroidBoard: React.FC<PolaroidBoardProps> = ({ entries, layout, currentAge, onLayoutChange, onSelectAge, onRemove }) => {
+    const { t, formatYear } = useI18n();
+    const boardRef = useRef<HTMLDivElement>(null);
+    const sortedEntries = [...entries].sort((a, b) => a.age - b.age);
+
+    const updateCard = (age: number, cardLayout: BoardCardLayout, patch: Partial<BoardCardLayout>) => {
+        onLayoutChange({ ...layout, [age]: { ...cardLayout, ...patch } });
+    };
+
+    if (entries.length === 0) {
+        return (
+            <p className="text-sm text-neutral-500 text-center">{t('board.empty')}</p>
+        );
+    }
+
+    return (
+        <div ref={boardRef} data-age-step-region className="relative w-full h-[640px] rounded-lg border border-white/10 bg-[#3a322c]/40 overflow-hidden">
+            {sortedEntries.map((entry, index) => {
+                const cardLayout = layout[entry.age] ?? defaultCardLayout(index, entry.age);
+                return (
+                    <DraggableCard
+                        key={entry.age}
+                        x={cardLayout.x}
+                        y={cardLayout.y}
+                        rotation={cardLayout.rotation}
+                        locked={cardLayout.favorite}
+                        constraintsRef={boardRef}
+                        onMove={(position) => updateCard(entry.age, cardLayout, position)}
+                        onRotate={(rotation) => updateCard(entry.age, cardLayout, { rotation })}
+                        onTap={() => onSelectAge(entry.age)}
+                        label={t('board.show', { age: entry.age, year: formatYear(entry.year) })}
+                        selected={entry.age === currentAge}
+                        className={cn(cardLayout.favorite && 'z-10')}
+                    >
+                        <PolaroidCard
+                            imageUrl={entry.imageUrl}
+                            caption={t('board.caption', { age: entry.age, year: formatYear(entry.year) })}
+                            status="done"
+                            className={cn('w-36 p-2 pb-10', entry.age === currentAge && 'ring-4 ring-yellow-400')}
+                            captionClassName="text-sm"
+                        />
+                        {/* Revealed on hover or keyboard focus, and always shown on touch screens, which can't hover. */}
+                        <div className="absolute top-1 right-1 z-20 flex gap-1 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity">
+                            <button
+                                data-card-control
+                                onClick={() => updateCard(entry.age, cardLayout, { favorite: !cardLayout.favorite })}
+                                className={controlClasses}
+                                aria-label={t(cardLayout.favorite ? 'board.unpin' : 'board.pin', { age: entry.age })}
+                                aria-pressed={cardLayout.favorite}
+                            >
+                                {cardLayout.favorite ? '★' : '☆'}
+                            </button>
+                            <button
+                                data-card-control
+                                onClick={() => onRemove(entry.age)}
+                                className={controlClasses}
+                                aria-label={t('board.remove', { age: entry.age })}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                        {cardLayout.favorite && (
+                            <span className="absolute -top-2 left-1/2 -translate-x-1/2 z-20 text-xl drop-shadow" aria-hidden="true">📌</span>
+                        )}
+                    </DraggableCard>
+                );
+            })}
+        </div>
+    );
+};
+
+export default PolaroidBoard;
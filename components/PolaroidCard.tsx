@@ -5,6 +5,7 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
 
 type ImageStatus = 'pending' | 'done' | 'error';
 
@@ -13,20 +14,25 @@ interface PolaroidCardProps {
     caption: string;
     status: ImageStatus;
     error?: string;
+    className?: string;
+    captionClassName?: string;
 }
 
-const Placeholder = () => (
-    <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
-            <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
-            <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
-        </svg>
-        <span className="font-permanent-marker text-xl">Upload Photo</span>
-    </div>
-);
+const Placeholder = () => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-col items-center justify-center h-full text-neutral-500 group-hover:text-neutral-300 transition-colors duration-300">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-16 w-16 mb-2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" />
+                <path strokeLinecap="round" strokeLinejoin="round" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+            <span className="font-permanent-marker text-xl">{t('polaroid.uploadPhoto')}</span>
+        </div>
+    );
+};
 
 
-const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status }) => {
+const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status, className, captionClassName }) => {
     const [isDeveloped, setIsDeveloped] = useState(false);
     const [isImageLoaded, setIsImageLoaded] = useState(false);
 
@@ -49,7 +55,10 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status }
 
     return (
         <motion.div 
-            className="bg-neutral-100 dark:bg-neutral-100 p-4 pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-2xl relative"
+            className={cn(
+                "bg-neutral-100 dark:bg-neutral-100 p-4 pb-16 flex flex-col items-center justify-start aspect-[3/4] w-80 max-w-full rounded-md shadow-2xl relative",
+                className
+            )}
             whileHover={{ scale: 1.02 }}
             whileTap={{ scale: 0.98 }}
         >
@@ -81,7 +90,8 @@ const PolaroidCard: React.FC<PolaroidCardProps> = ({ imageUrl, caption, status }
             <div className="absolute bottom-4 left-4 right-4 text-center px-2">
                 <p className={cn(
                     "font-permanent-marker text-lg truncate",
-                    status === 'done' && imageUrl ? 'text-black' : 'text-neutral-800'
+                    status === 'done' && imageUrl ? 'text-black' : 'text-neutral-800',
+                    captionClassName
                 )}>
                     {caption}
                 </p>
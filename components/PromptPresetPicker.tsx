@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { PROMPT_PRESETS, PromptPresetId } from '../lib/promptBuilder';
+import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
+
+interface PromptPresetPickerProps {
+    value: PromptPresetId;
+    onChange: (preset: PromptPresetId) => void;
+    disabled?: boolean;
+}
+
+const PromptPresetPicker: React.FC<PromptPresetPickerProps> = ({ value, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    return (
+        <div className="w-full flex flex-col items-center gap-2 px-4">
+            <div className="flex flex-wrap justify-center gap-2" role="radiogroup" aria-label={t('presets.label')}>
+                {Object.values(PROMPT_PRESETS).map(preset => (
+                    <button
+                        key={preset.id}
+                        type="button"
+                        role="radio"
+                        aria-checked={preset.id === value}
+                        onClick={() => onChange(preset.id)}
+                        disabled={disabled}
+                        title={t(preset.descriptionKey)}
+                        className={cn(
+                            "text-sm px-3 py-1 rounded-full border transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
+                            preset.id === value
+                                ? "bg-yellow-400 text-black border-yellow-400"
+                                : "text-neutral-300 border-white/30 hover:border-yellow-400 hover:text-yellow-400"
+                        )}
+                    >
+                        {t(preset.labelKey)}
+                    </button>
+                ))}
+            </div>
+            <p className="text-xs text-neutral-500 h-4">{t(PROMPT_PRESETS[value].descriptionKey)}</p>
+        </div>
+    );
+};
+
+export default PromptPresetPicker;
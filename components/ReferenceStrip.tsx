@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { ChangeEvent } from 'react';
+import { useI18n } from './I18nProvider';
+
+interface ReferenceStripProps {
+    images: string[];
+    maxImages: number;
+    onAdd: (files: File[]) => void;
+    onRemove: (index: number) => void;
+    disabled?: boolean;
+}
+
+const ReferenceStrip: React.FC<ReferenceStripProps> = ({ images, maxImages, onAdd, onRemove, disabled = false }) => {
+    const { t } = useI18n();
+    const handleChange = (e: ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files ?? []);
+        if (files.length > 0) {
+            onAdd(files);
+        }
+        e.target.value = '';
+    };
+
+    return (
+        <div className="flex md:flex-col md:absolute md:left-full md:top-0 md:ml-3 items-center gap-2" aria-label={t('references.label')}>
+            <p className="text-xs text-neutral-500 md:w-16 text-center" title={t('references.hint')}>
+                {t('references.count', { count: images.length, max: maxImages })}
+            </p>
+            {images.map((image, index) => (
+                <div key={index} className="relative w-16 h-16 rounded-sm overflow-hidden border border-white/20 group">
+                    <img src={image} alt={t('references.photoAlt', { number: index + 1 })} className="w-full h-full object-cover" />
+                    <button
+                        onClick={() => onRemove(index)}
+                        disabled={disabled}
+                        className="absolute top-0.5 right-0.5 w-5 h-5 flex items-center justify-center text-xs text-white bg-black/60 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity disabled:hidden"
+                        aria-label={t('references.remove', { number: index + 1 })}
+                    >
+                        ✕
+                    </button>
+                </div>
+            ))}
+            {images.length < maxImages && (
+                <label
+                    className={`w-16 h-16 flex items-center justify-center rounded-sm border-2 border-dashed border-white/30 text-2xl text-neutral-500 transition-colors ${disabled ? 'opacity-50 pointer-events-none' : 'cursor-pointer hover:border-yellow-400 hover:text-yellow-400'}`}
+                    title={t('references.add')}
+                >
+                    +
+                    <input type="file" className="hidden" accept="image/png, image/jpeg, image/webp" multiple disabled={disabled} onChange={handleChange} />
+                    <span className="sr-only">{t('references.add')}</span>
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default ReferenceStrip;
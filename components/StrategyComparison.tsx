@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { FrameJob } from '../lib/frameQueue';
+import { FRAME_STRATEGY_LABEL_KEYS, FrameStrategy } from '../lib/frameChain';
+import { cn } from '../lib/utils';
+import { useI18n } from './I18nProvider';
+
+interface StrategyComparisonProps {
+    framesByStrategy: Partial<Record<FrameStrategy, FrameJob[]>>;
+    activeStrategy: FrameStrategy;
+    onSelectStrategy: (strategy: FrameStrategy) => void;
+}
+
+/**
+ * Lines up the frames each strategy produced, age by age, so identity drift is easy to spot.
+ */
+const StrategyComparison: React.FC<StrategyComparisonProps> = ({ framesByStrategy, activeStrategy, onSelectStrategy }) => {
+    const { t } = useI18n();
+    const strategies = (Object.keys(FRAME_STRATEGY_LABEL_KEYS) as FrameStrategy[])
+        .filter(strategy => framesByStrategy[strategy]?.some(frame => frame.status === 'done'));
+    if (strategies.length < 2) {
+        return null;
+    }
+    const ages = [...new Set(strategies.flatMap(strategy => framesByStrategy[strategy]!.map(frame => frame.age)))].sort((a, b) => a - b);
+
+    return (
+        <div className="w-full px-4 flex flex-col gap-2">
+            <p className="text-xs text-neutral-400 text-center">{t('strategies.compare')}</p>
+            {strategies.map(strategy => {
+                const urlByAge = new Map(framesByStrategy[strategy]!.map(frame => [frame.age, frame.status === 'done' ? frame.url : undefined]));
+                return (
+                    <div key={strategy} className="flex items-center gap-2">
+                        <button
+                            onClick={() => onSelectStrategy(strategy)}
+                            className={cn(
+                                "w-20 shrink-0 text-xs text-left transition-colors",
+                                strategy === activeStrategy ? "text-yellow-400" : "text-neutral-400 hover:text-yellow-400"
+                            )}
+                            aria-pressed={strategy === activeStrategy}
+                        >
+                            {t(FRAME_STRATEGY_LABEL_KEYS[strategy])}
+                        </button>
+                        <div className="flex-1 grid gap-0.5" style={{ gridTemplateColumns: `repeat(${ages.length}, minmax(0, 1fr))` }}>
+                            {ages.map(age => {
+                                const url = urlByAge.get(age);
+                                return (
+                                    <div key={age} className="aspect-square bg-neutral-900 rounded-sm overflow-hidden" title={t('strategies.frameTitle', { strategy: t(FRAME_STRATEGY_LABEL_KEYS[strategy]), age })}>
+                                        {url && <img src={url} alt="" className="w-full h-full object-cover" />}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default StrategyComparison;
@@ -2,15 +2,65 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
+import { downloadUrl } from '../lib/downloadUtils';
+import type { VideoResult } from '../lib/videoUtils';
+import { useI18n } from './I18nProvider';
 
 interface VideoPlayerModalProps {
-    videoUrl: string;
+    video: VideoResult;
     onClose: () => void;
 }
 
-const VideoPlayerModal: React.FC<VideoPlayerModalProps> = ({ videoUrl, onClose }) => {
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), select:not([disabled]), textarea:not([disabled]), video[controls], [tabindex]:not([tabindex="-1"])';
+
+/**
+ * Shows the finished video in a modal dialog. Focus is kept inside the dialog while it's open,
+ * Escape closes it, and focus returns to wherever it was before.
+ */
+const VideoPlayerModal: React.FC<VideoPlayerModalProps> = ({ video, onClose }) => {
+    const { t } = useI18n();
+    const dialogRef = useRef<HTMLDivElement>(null);
+    const closeButtonRef = useRef<HTMLButtonElement>(null);
+    const onCloseRef = useRef(onClose);
+    onCloseRef.current = onClose;
+
+    useEffect(() => {
+        const previouslyFocused = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+        closeButtonRef.current?.focus();
+
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                onCloseRef.current();
+                return;
+            }
+            if (e.key !== 'Tab' || !dialogRef.current) return;
+            const focusable = Array.from<HTMLElement>(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR));
+            if (focusable.length === 0) return;
+            const first = focusable[0];
+            const last = focusable[focusable.length - 1];
+            const isInside = dialogRef.current.contains(document.activeElement);
+            if (e.shiftKey && (document.activeElement === first || !isInside)) {
+                e.preventDefault();
+                last.focus();
+            } else if (!e.shiftKey && (document.activeElement === last || !isInside)) {
+                e.preventDefault();
+                first.focus();
+            }
+        };
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('keydown', handleKeyDown);
+            previouslyFocused?.focus();
+        };
+    }, []);
+
+    const handleDownload = () => {
+        downloadUrl(video.url, `age-voyager-evolution.${video.extension}`);
+    };
+
     return (
         <motion.div
             initial={{ opacity: 0 }}
@@ -24,23 +74,40 @@ const VideoPlayerModal: React.FC<VideoPlayerModalProps> = ({ videoUrl, onClose }
                 animate={{ scale: 1, y: 0 }}
                 exit={{ scale: 0.8, y: 20 }}
                 transition={{ type: 'spring', damping: 20, stiffness: 200 }}
+                ref={dialogRef}
+                role="dialog"
+                aria-modal="true"
+                aria-label={t('videoModal.title')}
                 className="relative bg-neutral-900 rounded-lg shadow-2xl w-full max-w-2xl aspect-video overflow-hidden border border-white/10"
                 onClick={(e) => e.stopPropagation()} // Prevent closing when clicking on the video player itself
             >
-                <video
-                    src={videoUrl}
-                    className="w-full h-full"
-                    controls
-                    autoPlay
-                    loop
-                    playsInline
-                />
+                {video.format === 'gif' ? (
+                    <img src={video.url} alt={t('videoModal.animationAlt')} className="w-full h-full object-contain" />
+                ) : (
+                    <video
+                        src={video.url}
+                        className="w-full h-full"
+                        controls
+                        autoPlay
+                        loop
+                        playsInline
+                        aria-label={t('videoModal.title')}
+                    />
+                )}
+                <button
+                    onClick={handleDownload}
+                    className="absolute top-2 left-2 text-sm font-permanent-marker text-black bg-yellow-400 rounded-sm px-3 py-1.5 hover:bg-yellow-300 transition-colors focus:outline-none focus:ring-2 focus:ring-yellow-400"
+                    aria-label={t('videoModal.downloadLabel', { format: video.format.toUpperCase() })}
+                >
+                    {t('videoModal.download', { extension: video.extension })}
+                </button>
                  <button
+                    ref={closeButtonRef}
                     onClick={onClose}
                     className="absolute top-2 right-2 text-white bg-black/50 rounded-full p-2 hover:bg-black/80 transition-colors focus:outline-none focus:ring-2 focus:ring-yellow-400"
-                    aria-label="Close video player"
+                    aria-label={t('videoModal.close')}
                 >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <svg xmlns="http://www.w3.org/2000/svg" aria-hidden="true" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
                     </svg>
                 </button>
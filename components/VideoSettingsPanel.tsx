@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { EasingName, FrameFit, VideoFormat, VideoRenderOptions, VideoTransition } from '../lib/videoUtils';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales/en';
+
+interface VideoSettingsPanelProps {
+    settings: VideoRenderOptions;
+    onChange: (settings: VideoRenderOptions) => void;
+    disabled?: boolean;
+}
+
+const TRANSITION_LABEL_KEYS: Record<VideoTransition, MessageKey> = {
+    cut: 'videoSettings.transition.cut',
+    crossfade: 'videoSettings.transition.crossfade',
+    dissolve: 'videoSettings.transition.dissolve',
+    kenburns: 'videoSettings.transition.kenburns',
+};
+
+const EASING_LABEL_KEYS: Record<EasingName, MessageKey> = {
+    linear: 'videoSettings.easing.linear',
+    easeIn: 'videoSettings.easing.easeIn',
+    easeOut: 'videoSettings.easing.easeOut',
+    easeInOut: 'videoSettings.easing.easeInOut',
+};
+
+const FIT_LABEL_KEYS: Record<FrameFit, MessageKey> = {
+    letterbox: 'videoSettings.fit.letterbox',
+    crop: 'videoSettings.fit.crop',
+};
+
+const FORMAT_LABEL_KEYS: Record<VideoFormat | 'auto', MessageKey> = {
+    auto: 'videoSettings.format.auto',
+    mp4: 'videoSettings.format.mp4',
+    webm: 'videoSettings.format.webm',
+    gif: 'videoSettings.format.gif',
+};
+
+const selectClasses = "bg-neutral-800 text-neutral-100 rounded-sm px-1 disabled:opacity-50";
+
+/**
+ * Renders a labelled select for one of the string-union settings.
+ */
+function SettingSelect<T extends string>({ label, value, labelKeys, disabled, onChange }: {
+    label: string;
+    value: T;
+    labelKeys: Record<T, MessageKey>;
+    disabled: boolean;
+    onChange: (value: T) => void;
+}) {
+    const { t } = useI18n();
+    return (
+        <label className="flex items-center gap-1">
+            {label}
+            <select value={value} onChange={(e) => onChange(e.target.value as T)} disabled={disabled} className={selectClasses}>
+                {(Object.keys(labelKeys) as T[]).map(key => <option key={key} value={key}>{t(labelKeys[key])}</option>)}
+            </select>
+        </label>
+    );
+}
+
+const VideoSettingsPanel: React.FC<VideoSettingsPanelProps> = ({ settings, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    const transition = settings.transition ?? 'crossfade';
+
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-neutral-400">
+            <SettingSelect
+                label={t('videoSettings.transition')}
+                value={transition}
+                labelKeys={TRANSITION_LABEL_KEYS}
+                disabled={disabled}
+                onChange={(value) => onChange({ ...settings, transition: value })}
+            />
+            <SettingSelect
+                label={t('videoSettings.easing')}
+                value={settings.easing ?? 'easeInOut'}
+                labelKeys={EASING_LABEL_KEYS}
+                disabled={disabled || transition === 'cut'}
+                onChange={(value) => onChange({ ...settings, easing: value })}
+            />
+            <SettingSelect
+                label={t('videoSettings.fit')}
+                value={settings.fit ?? 'letterbox'}
+                labelKeys={FIT_LABEL_KEYS}
+                disabled={disabled}
+                onChange={(value) => onChange({ ...settings, fit: value })}
+            />
+            <SettingSelect
+                label={t('videoSettings.format')}
+                value={settings.format ?? 'auto'}
+                labelKeys={FORMAT_LABEL_KEYS}
+                disabled={disabled}
+                onChange={(value) => onChange({ ...settings, format: value })}
+            />
+        </div>
+    );
+};
+
+export default VideoSettingsPanel;
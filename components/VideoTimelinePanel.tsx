@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import type { CaptionStyle } from '../lib/videoOverlays';
+import { useI18n } from './I18nProvider';
+import type { MessageKey } from '../locales/en';
+
+export type CaptionFont = 'marker' | 'caveat' | 'roboto';
+
+export interface VideoTimelineSettings {
+    captions: boolean;
+    titleCards: boolean;
+    captionFont: CaptionFont;
+    captionPosition: CaptionStyle['position'];
+    soundtrack: File | null;
+}
+
+interface VideoTimelinePanelProps {
+    settings: VideoTimelineSettings;
+    onChange: (settings: VideoTimelineSettings) => void;
+    disabled?: boolean;
+}
+
+export const CAPTION_FONT_FAMILIES: Record<CaptionFont, string> = {
+    marker: "'Permanent Marker', cursive",
+    caveat: "'Caveat', cursive",
+    roboto: "'Roboto', sans-serif",
+};
+
+const CAPTION_FONT_LABEL_KEYS: Record<CaptionFont, MessageKey> = {
+    marker: 'videoTimeline.font.marker',
+    caveat: 'videoTimeline.font.caveat',
+    roboto: 'videoTimeline.font.roboto',
+};
+
+const selectClasses = "bg-neutral-800 text-neutral-100 rounded-sm px-1 disabled:opacity-50";
+
+const VideoTimelinePanel: React.FC<VideoTimelinePanelProps> = ({ settings, onChange, disabled = false }) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-wrap items-center justify-center gap-3 text-sm text-neutral-400">
+            <label className="flex items-center gap-1">
+                <input
+                    type="checkbox"
+                    checked={settings.captions}
+                    onChange={(e) => onChange({ ...settings, captions: e.target.checked })}
+                    disabled={disabled}
+                />
+                {t('videoTimeline.captions')}
+            </label>
+            <label className="flex items-center gap-1">
+                <input
+                    type="checkbox"
+                    checked={settings.titleCards}
+                    onChange={(e) => onChange({ ...settings, titleCards: e.target.checked })}
+                    disabled={disabled}
+                />
+                {t('videoTimeline.titleCards')}
+            </label>
+            <label className="flex items-center gap-1">
+                {t('videoTimeline.font')}
+                <select
+                    value={settings.captionFont}
+                    onChange={(e) => onChange({ ...settings, captionFont: e.target.value as CaptionFont })}
+                    disabled={disabled || (!settings.captions && !settings.titleCards)}
+                    className={selectClasses}
+                >
+                    {(Object.keys(CAPTION_FONT_LABEL_KEYS) as CaptionFont[]).map(font => (
+                        <option key={font} value={font}>{t(CAPTION_FONT_LABEL_KEYS[font])}</option>
+                    ))}
+                </select>
+            </label>
+            <label className="flex items-center gap-1">
+                {t('videoTimeline.position')}
+                <select
+                    value={settings.captionPosition}
+                    onChange={(e) => onChange({ ...settings, captionPosition: e.target.value as CaptionStyle['position'] })}
+                    disabled={disabled || !settings.captions}
+                    className={selectClasses}
+                >
+                    <option value="bottom">{t('videoTimeline.position.bottom')}</option>
+                    <option value="top">{t('videoTimeline.position.top')}</option>
+                </select>
+            </label>
+            {settings.soundtrack ? (
+                <span className="flex items-center gap-1">
+                    <span className="max-w-[10rem] truncate" title={settings.soundtrack.name}>♪ {settings.soundtrack.name}</span>
+                    <button
+                        onClick={() => onChange({ ...settings, soundtrack: null })}
+                        disabled={disabled}
+                        className="hover:text-yellow-400 disabled:opacity-50"
+                        aria-label={t('videoTimeline.removeSoundtrack')}
+                    >
+                        ✕
+                    </button>
+                </span>
+            ) : (
+                <label className={`cursor-pointer hover:text-yellow-400 underline ${disabled ? 'pointer-events-none opacity-50' : ''}`}>
+                    {t('videoTimeline.addSoundtrack')}
+                    <input
+                        type="file"
+                        accept="audio/*"
+                        className="hidden"
+                        disabled={disabled}
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) {
+                                onChange({ ...settings, soundtrack: file });
+                            }
+                            e.target.value = '';
+                        }}
+                    />
+                </label>
+            )}
+        </div>
+    );
+};
+
+export default VideoTimelinePanel;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useEffect, useRef } from 'react';
+import { motion, useDragControls, useMotionValue } from 'framer-motion';
+import { cn } from '../../lib/utils';
+import { useI18n } from '../I18nProvider';
+
+export interface CardPosition {
+    x: number;
+    y: number;
+}
+
+interface DraggableCardProps {
+    x: number;
+    y: number;
+    rotation: number;
+    /** Locked cards can't be dragged or rotated. */
+    locked?: boolean;
+    /** The element the card must stay within while dragging. */
+    constraintsRef?: React.RefObject<HTMLElement | null>;
+    onMove?: (position: CardPosition) => void;
+    /** When provided, a rotation handle is shown in the card's corner. */
+    onRotate?: (rotation: number) => void;
+    /**
+     * Fired on a click that didn't turn into a drag, or on Enter or Space while the card has focus.
+     * Clicks on elements marked with data-card-control are ignored.
+     */
+    onTap?: () => void;
+    /** The card's accessible name, read out when it gets keyboard focus. */
+    label?: string;
+    /** Whether the card is the one currently shown, for assistive technology. */
+    selected?: boolean;
+    className?: string;
+    children: React.ReactNode;
+}
+
+const RotateIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        <path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+    </svg>
+);
+
+/** How many degrees each arrow key press turns the card, or with Shift held. */
+const ROTATE_STEP = 5;
+const ROTATE_STEP_LARGE = 15;
+
+/**
+ * Reports whether an event came from a control inside the card (a button, the rotation handle),
+ * which should neither start a drag nor count as a tap on the card itself.
+ */
+function isCardControl(target: EventTarget | null): boolean {
+    return target instanceof Element && target.closest('[data-card-control]') !== null;
+}
+
+export const DraggableCard: React.FC<DraggableCardProps> = ({
+    x,
+    y,
+    rotation,
+    locked = false,
+    constraintsRef,
+    onMove,
+    onRotate,
+    onTap,
+    label,
+    selected,
+    className,
+    children,
+}) => {
+    const { t } = useI18n();
+    const cardRef = useRef<HTMLDivElement>(null);
+    const dragControls = useDragControls();
+    const xValue = useMotionValue(x);
+    const yValue = useMotionValue(y);
+    const rotateValue = useMotionValue(rotation);
+    const rotationGesture = useRef<{ startAngle: number; startRotation: number } | null>(null);
+
+    // Keep the motion values in sync when the layout is changed from outside (e.g. a loaded session).
+    useEffect(() => { xValue.set(x); }, [x, xValue]);
+    useEffect(() => { yValue.set(y); }, [y, yValue]);
+    useEffect(() => { rotateValue.set(rotation); }, [rotation, rotateValue]);
+
+    const pointerAngle = (event: React.PointerEvent) => {
+        const rect = cardRef.current!.getBoundingClientRect();
+        const centerX = rect.left + rect.width / 2;
+        const centerY = rect.top + rect.height / 2;
+        return Math.atan2(event.clientY - centerY, event.clientX - centerX) * (180 / Math.PI);
+    };
+
+    const handleRotateStart = (event: React.PointerEvent) => {
+        event.currentTarget.setPointerCapture(event.pointerId);
+        rotationGesture.current = { startAngle: pointerAngle(event), startRotation: rotateValue.get() };
+    };
+
+    const handleRotateMove = (event: React.PointerEvent) => {
+        if (!rotationGesture.current) return;
+        const { startAngle, startRotation } = rotationGesture.current;
+        rotateValue.set(startRotation + pointerAngle(event) - startAngle);
+    };
+
+    const handleRotateEnd = (event: React.PointerEvent) => {
+        if (!rotationGesture.current) return;
+        event.currentTarget.releasePointerCapture(event.pointerId);
+        rotationGesture.current = null;
+        onRotate?.(Math.round(rotateValue.get()));
+    };
+
+    const handleRotateKeyDown = (event: React.KeyboardEvent) => {
+        const step = event.shiftKey ? ROTATE_STEP_LARGE : ROTATE_STEP;
+        let delta: number;
+        if (event.key === 'ArrowLeft' || event.key === 'ArrowDown') delta = -step;
+        else if (event.key === 'ArrowRight' || event.key === 'ArrowUp') delta = step;
+        else return;
+        event.preventDefault();
+        event.stopPropagation();
+        const next = Math.round(rotateValue.get() + delta);
+        rotateValue.set(next);
+        onRotate?.(next);
+    };
+
+    return (
+        <motion.div
+            ref={cardRef}
+            drag={!locked}
+            // Drags are started manually so the rotation handle can keep its pointer events to itself.
+            dragListener={false}
+            dragControls={dragControls}
+            onPointerDown={(event) => {
+                if (!locked && !isCardControl(event.target)) dragControls.start(event);
+            }}
+            dragMomentum={false}
+            dragConstraints={constraintsRef}
+            dragElastic={0}
+            style={{ x: xValue, y: yValue, rotate: rotateValue }}
+            whileDrag={{ scale: 1.05, zIndex: 30, cursor: 'grabbing' }}
+            onDragEnd={() => onMove?.({ x: Math.round(xValue.get()), y: Math.round(yValue.get()) })}
+            // framer-motion's press gesture already turns Enter on the focused card into a tap; Space is handled here.
+            onTap={(event) => {
+                if (!isCardControl(event.target)) onTap?.();
+            }}
+            onKeyDown={(event) => {
+                if (event.key !== ' ' || event.target !== event.currentTarget || !onTap) return;
+                event.preventDefault();
+                onTap();
+            }}
+            tabIndex={onTap ? 0 : undefined}
+            role={onTap ? 'button' : undefined}
+            aria-label={label}
+            aria-pressed={onTap ? selected : undefined}
+            className={cn(
+                'absolute top-0 left-0 group focus:outline-none focus-visible:ring-2 focus-visible:ring-white',
+                locked ? 'cursor-pointer' : 'cursor-grab',
+                className
+            )}
+        >
+            {children}
+            {onRotate && !locked && (
+                <button
+                    type="button"
+                    aria-label={t('board.rotate')}
+                    data-card-control
+                    onPointerDown={handleRotateStart}
+                    onPointerMove={handleRotateMove}
+                    onPointerUp={handleRotateEnd}
+                    onPointerCancel={handleRotateEnd}
+                    onKeyDown={handleRotateKeyDown}
+                    className="absolute -bottom-2 -right-2 z-20 bg-yellow-400 text-black rounded-full p-1 shadow cursor-alias opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-white"
+                >
+                    <RotateIcon />
+                </button>
+            )}
+        </motion.div>
+    );
+};
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Creates the error thrown when an operation is cancelled through an AbortSignal.
+ * @returns A DOMException named "AbortError", matching what fetch throws.
+ */
+export function createAbortError(): DOMException {
+    return new DOMException("The operation was aborted.", 'AbortError');
+}
+
+/**
+ * Reports whether an error was caused by cancellation rather than a real failure.
+ * @param error The caught value.
+ */
+export function isAbortError(error: unknown): boolean {
+    return (error instanceof DOMException || error instanceof Error) && error.name === 'AbortError';
+}
+
+/**
+ * Throws an AbortError if the signal has already been aborted.
+ * @param signal The signal to check.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+/**
+ * Waits for a number of milliseconds, rejecting early if the signal is aborted.
+ * @param ms How long to wait.
+ * @param signal An optional signal that cancels the wait.
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Settles with the given promise, or rejects with an AbortError as soon as the signal is aborted.
+ * The underlying work is not stopped; use this to detach a caller from shared work.
+ * @param promise The promise to wait on.
+ * @param signal An optional signal that detaches the caller.
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError());
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(
+            value => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            error => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
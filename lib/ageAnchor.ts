@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createLocalizedError } from './i18n';
+
+/**
+ * The fixed point every year calculation hangs off: how old the person is in the photo, and when it was taken.
+ */
+export interface AgeAnchor {
+    ageInPhoto: number;
+    photoYear: number;
+    /**
+     * The year ages are counted from, always photoYear - ageInPhoto. For someone whose birthday
+     * hadn't come round yet when the photo was taken, that is the year after they were born.
+     */
+    birthYear: number;
+    /** Whether the anchor comes purely from the model's estimate or was corrected by the user. */
+    source: 'estimate' | 'manual';
+}
+
+/** Facts the user knows for sure. Any combination may be given. */
+export interface AgeOverrides {
+    knownAge?: number;
+    birthYear?: number;
+    photoYear?: number;
+}
+
+export const MIN_AGE = 1;
+export const MAX_AGE = 100;
+
+/**
+ * Combines the model's estimate with whatever the user knows, preferring the user's facts.
+ * With a known age and a birth year the photo year follows from them; otherwise it defaults to this year.
+ * Years alone can't say whether the birthday had passed when the photo was taken, so a known age
+ * may be the birth-to-photo year difference or one less.
+ * @param estimatedAge The model's age estimate for the person in the photo.
+ * @param overrides The user's corrections.
+ * @returns The resolved anchor.
+ * @throws A LocalizedError if the corrections contradict each other or put the age outside the supported range.
+ */
+export function resolveAgeAnchor(estimatedAge: number, overrides: AgeOverrides = {}): AgeAnchor {
+    const { knownAge, birthYear } = overrides;
+    const currentYear = new Date().getFullYear();
+    const isManual = knownAge !== undefined || birthYear !== undefined || overrides.photoYear !== undefined;
+
+    let photoYear = overrides.photoYear ?? currentYear;
+    let ageInPhoto: number;
+    if (knownAge !== undefined && birthYear !== undefined) {
+        if (overrides.photoYear !== undefined) {
+            const ageAfterBirthday = overrides.photoYear - birthYear;
+            if (knownAge !== ageAfterBirthday && knownAge !== ageAfterBirthday - 1) {
+                throw createLocalizedError('errors.ageAnchor.contradiction', {
+                    birthYear,
+                    ageBeforeBirthday: ageAfterBirthday - 1,
+                    ageAfterBirthday,
+                    photoYear: overrides.photoYear,
+                    knownAge,
+                });
+            }
+        } else {
+            photoYear = birthYear + knownAge;
+        }
+        ageInPhoto = knownAge;
+    } else if (birthYear !== undefined) {
+        ageInPhoto = photoYear - birthYear;
+    } else {
+        ageInPhoto = knownAge ?? estimatedAge;
+    }
+
+    if (photoYear > currentYear) {
+        throw createLocalizedError('errors.ageAnchor.futurePhoto', { year: currentYear });
+    }
+    if (ageInPhoto < MIN_AGE || ageInPhoto > MAX_AGE) {
+        throw createLocalizedError('errors.ageAnchor.outOfRange', { age: ageInPhoto, min: MIN_AGE, max: MAX_AGE });
+    }
+
+    return {
+        ageInPhoto,
+        photoYear,
+        birthYear: photoYear - ageInPhoto,
+        source: isManual ? 'manual' : 'estimate',
+    };
+}
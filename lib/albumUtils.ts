@@ -0,0 +1,365 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type AlbumLayout = 'grid' | 'timeline' | 'decades';
+
+export interface AlbumEntry {
+    age: number;
+    year: number;
+    imageUrl: string;
+}
+
+/** Text printed on the album, passed in already translated. */
+export interface AlbumOptions {
+    /** Heading printed at the top of every page. */
+    title: string;
+    /** The caption under each polaroid. */
+    caption: (entry: AlbumEntry) => string;
+    /** The heading of a decade's pages; `continued` is set on every page after the first. */
+    decadeHeading: (decade: number, continued: boolean) => string;
+}
+
+interface AlbumPage {
+    heading: string;
+    entries: AlbumEntry[];
+    style: 'grid' | 'strip';
+}
+
+// A4 landscape at 300 DPI, and the same page in PDF points.
+const PAGE_WIDTH = 3508;
+const PAGE_HEIGHT = 2480;
+const PDF_PAGE_WIDTH = 842;
+const PDF_PAGE_HEIGHT = 595;
+
+const GRID_COLUMNS = 4;
+const GRID_ROWS = 2;
+const STRIP_TILES_PER_PAGE = 5;
+const MAX_PNG_HEIGHT = 16000;
+
+const HEADER_HEIGHT = 360;
+const PAGE_MARGIN = 160;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
+
+/**
+ * Splits the album entries into pages for the chosen layout.
+ * @param entries The entries, in any order.
+ * @param layout The layout to paginate for.
+ * @param options The album title and decade headings.
+ */
+function paginate(entries: AlbumEntry[], layout: AlbumLayout, { title, decadeHeading }: AlbumOptions): AlbumPage[] {
+    const sorted = [...entries].sort((a, b) => a.age - b.age);
+
+    switch (layout) {
+        case 'grid':
+            return chunk(sorted, GRID_COLUMNS * GRID_ROWS).map(pageEntries => ({ heading: title, entries: pageEntries, style: 'grid' }));
+        case 'timeline':
+            return chunk(sorted, STRIP_TILES_PER_PAGE).map(pageEntries => ({ heading: title, entries: pageEntries, style: 'strip' }));
+        case 'decades': {
+            const decades = new Map<number, AlbumEntry[]>();
+            for (const entry of sorted) {
+                const decade = Math.floor(entry.year / 10) * 10;
+                decades.set(decade, [...(decades.get(decade) ?? []), entry]);
+            }
+            return [...decades.entries()].flatMap(([decade, decadeEntries]) =>
+                chunk(decadeEntries, GRID_COLUMNS * GRID_ROWS).map((pageEntries, index) => ({
+                    heading: decadeHeading(decade, index > 0),
+                    entries: pageEntries,
+                    style: 'grid' as const,
+                }))
+            );
+        }
+    }
+}
+
+/**
+ * Draws an image scaled to cover the target rectangle, cropping the overflow like CSS object-fit: cover.
+ */
+function drawCoverImage(ctx: CanvasRenderingContext2D, image: HTMLImageElement, x: number, y: number, width: number, height: number) {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const sourceWidth = width / scale;
+    const sourceHeight = height / scale;
+    const sourceX = (image.naturalWidth - sourceWidth) / 2;
+    const sourceY = (image.naturalHeight - sourceHeight) / 2;
+    ctx.drawImage(image, sourceX, sourceY, sourceWidth, sourceHeight, x, y, width, height);
+}
+
+/**
+ * Draws a polaroid-style tile centred on (centerX, centerY), matching PolaroidCard's proportions.
+ * @param width The tile width; the height follows PolaroidCard's 3:4 aspect ratio.
+ */
+function drawPolaroid(
+    ctx: CanvasRenderingContext2D,
+    entry: AlbumEntry,
+    caption: string,
+    image: HTMLImageElement,
+    centerX: number,
+    centerY: number,
+    width: number
+) {
+    const height = width * (4 / 3);
+    const padding = width * 0.05;
+    const captionHeight = width * 0.2;
+    // A small, stable tilt per age so the sheet looks hand-assembled but reprints identically.
+    const rotation = (((entry.age * 37) % 7) - 3) * 0.6 * (Math.PI / 180);
+
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    ctx.rotate(rotation);
+
+    ctx.shadowColor = 'rgba(0, 0, 0, 0.35)';
+    ctx.shadowBlur = width * 0.04;
+    ctx.shadowOffsetX = width * 0.01;
+    ctx.shadowOffsetY = width * 0.015;
+    ctx.fillStyle = '#f5f5f5';
+    ctx.fillRect(-width / 2, -height / 2, width, height);
+    ctx.shadowColor = 'transparent';
+
+    const photoX = -width / 2 + padding;
+    const photoY = -height / 2 + padding;
+    const photoWidth = width - padding * 2;
+    const photoHeight = height - padding - captionHeight;
+    ctx.fillStyle = '#171717';
+    ctx.fillRect(photoX, photoY, photoWidth, photoHeight);
+    drawCoverImage(ctx, image, photoX, photoY, photoWidth, photoHeight);
+
+    ctx.fillStyle = '#000000';
+    ctx.font = `${Math.round(captionHeight * 0.42)}px 'Permanent Marker', cursive`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(caption, 0, height / 2 - captionHeight / 2, photoWidth);
+
+    ctx.restore();
+}
+
+function drawHeader(ctx: CanvasRenderingContext2D, heading: string, pageNumber: number, pageCount: number) {
+    ctx.fillStyle = '#f5f5f5';
+    ctx.font = `200px 'Caveat', cursive`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillText(heading, PAGE_MARGIN, PAGE_MARGIN + 150);
+
+    ctx.fillStyle = '#737373';
+    ctx.font = `56px 'Permanent Marker', cursive`;
+    ctx.textAlign = 'right';
+    ctx.fillText(`${pageNumber} / ${pageCount}`, PAGE_WIDTH - PAGE_MARGIN, PAGE_MARGIN + 150);
+}
+
+function drawGridPage(ctx: CanvasRenderingContext2D, page: AlbumPage, images: Map<string, HTMLImageElement>, options: AlbumOptions) {
+    const areaTop = HEADER_HEIGHT;
+    const areaWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+    const areaHeight = PAGE_HEIGHT - areaTop - PAGE_MARGIN;
+    const cellWidth = areaWidth / GRID_COLUMNS;
+    const cellHeight = areaHeight / GRID_ROWS;
+    const tileWidth = Math.min(cellWidth * 0.82, (cellHeight * 0.9) * (3 / 4));
+
+    page.entries.forEach((entry, index) => {
+        const column = index % GRID_COLUMNS;
+        const row = Math.floor(index / GRID_COLUMNS);
+        const centerX = PAGE_MARGIN + cellWidth * (column + 0.5);
+        const centerY = areaTop + cellHeight * (row + 0.5);
+        drawPolaroid(ctx, entry, options.caption(entry), images.get(entry.imageUrl)!, centerX, centerY, tileWidth);
+    });
+}
+
+function drawStripPage(ctx: CanvasRenderingContext2D, page: AlbumPage, images: Map<string, HTMLImageElement>, options: AlbumOptions) {
+    const areaWidth = PAGE_WIDTH - PAGE_MARGIN * 2;
+    const cellWidth = areaWidth / STRIP_TILES_PER_PAGE;
+    const tileWidth = cellWidth * 0.85;
+    const tileCenterY = HEADER_HEIGHT + (tileWidth * (4 / 3)) / 2 + 60;
+    const lineY = tileCenterY + (tileWidth * (4 / 3)) / 2 + 160;
+
+    ctx.strokeStyle = '#fbbf24';
+    ctx.lineWidth = 12;
+    ctx.beginPath();
+    ctx.moveTo(PAGE_MARGIN, lineY);
+    ctx.lineTo(PAGE_WIDTH - PAGE_MARGIN, lineY);
+    ctx.stroke();
+
+    page.entries.forEach((entry, index) => {
+        const centerX = PAGE_MARGIN + cellWidth * (index + 0.5);
+        drawPolaroid(ctx, entry, options.caption(entry), images.get(entry.imageUrl)!, centerX, tileCenterY, tileWidth);
+
+        ctx.fillStyle = '#fbbf24';
+        ctx.beginPath();
+        ctx.arc(centerX, lineY, 28, 0, Math.PI * 2);
+        ctx.fill();
+
+        ctx.fillStyle = '#f5f5f5';
+        ctx.font = `72px 'Permanent Marker', cursive`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        ctx.fillText(String(entry.year), centerX, lineY + 60);
+    });
+}
+
+/**
+ * Renders the album as a series of high-resolution canvases, one per page.
+ * @param entries Every age generated in the session.
+ * @param layout How to arrange the polaroids.
+ * @param options The translated title, captions and headings.
+ * @returns A promise that resolves to one canvas per page.
+ */
+export async function renderAlbumPages(
+    entries: AlbumEntry[],
+    layout: AlbumLayout,
+    options: AlbumOptions
+): Promise<HTMLCanvasElement[]> {
+    if (entries.length === 0) {
+        throw new Error("The album is empty. Generate at least one age first.");
+    }
+
+    await Promise.all([
+        document.fonts.load(`48px 'Permanent Marker'`),
+        document.fonts.load(`48px 'Caveat'`),
+    ]);
+
+    const uniqueUrls = [...new Set(entries.map(entry => entry.imageUrl))];
+    const loaded = await Promise.all(uniqueUrls.map(loadImage));
+    const images = new Map(uniqueUrls.map((url, index) => [url, loaded[index]]));
+
+    const pages = paginate(entries, layout, options);
+    return pages.map((page, index) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = PAGE_WIDTH;
+        canvas.height = PAGE_HEIGHT;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error("Could not create canvas context.");
+        }
+
+        ctx.fillStyle = '#0a0a0a';
+        ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+        drawHeader(ctx, page.heading, index + 1, pages.length);
+        if (page.style === 'grid') {
+            drawGridPage(ctx, page, images, options);
+        } else {
+            drawStripPage(ctx, page, images, options);
+        }
+        return canvas;
+    });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("Could not encode canvas."))), type, quality);
+    });
+}
+
+/**
+ * Exports the album as a single PNG contact sheet, stacking the pages vertically.
+ * @param entries Every age generated in the session.
+ * @param layout How to arrange the polaroids.
+ * @param options The translated title, captions and headings.
+ * @returns A promise that resolves to a PNG Blob.
+ */
+export async function exportAlbumPng(entries: AlbumEntry[], layout: AlbumLayout, options: AlbumOptions): Promise<Blob> {
+    const pages = await renderAlbumPages(entries, layout, options);
+    // Browsers cap canvas dimensions, so very long albums are scaled down to fit.
+    const scale = Math.min(1, MAX_PNG_HEIGHT / (PAGE_HEIGHT * pages.length));
+
+    const sheet = document.createElement('canvas');
+    sheet.width = Math.round(PAGE_WIDTH * scale);
+    sheet.height = Math.round(PAGE_HEIGHT * pages.length * scale);
+    const ctx = sheet.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not create canvas context.");
+    }
+    pages.forEach((page, index) => {
+        ctx.drawImage(page, 0, Math.round(index * PAGE_HEIGHT * scale), sheet.width, Math.round(PAGE_HEIGHT * scale));
+    });
+
+    return canvasToBlob(sheet, 'image/png');
+}
+
+/**
+ * Builds a minimal PDF where every page is a full-bleed JPEG image.
+ * @param jpegPages The JPEG-encoded pages.
+ * @param pixelWidth The width of each JPEG in pixels.
+ * @param pixelHeight The height of each JPEG in pixels.
+ * @returns A PDF Blob.
+ */
+function buildImagePdf(jpegPages: Uint8Array[], pixelWidth: number, pixelHeight: number): Blob {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object layout: 1 = catalog, 2 = page tree, then (page, image, content) triples.
+    const pageIds = jpegPages.map((_, index) => 3 + index * 3);
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>\nendobj\n`);
+
+    jpegPages.forEach((jpeg, index) => {
+        const pageId = pageIds[index];
+        const imageId = pageId + 1;
+        const contentId = pageId + 2;
+        const content = `q ${PDF_PAGE_WIDTH} 0 0 ${PDF_PAGE_HEIGHT} 0 0 cm /Im0 Do Q`;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${pixelWidth} /Height ${pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>\nstream\n`);
+        write(jpeg);
+        write('\nendstream\nendobj\n');
+        beginObject(contentId);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+    });
+
+    const objectCount = offsets.length;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(parts, { type: 'application/pdf' });
+}
+
+/**
+ * Exports the album as a multi-page, print-ready A4 landscape PDF.
+ * @param entries Every age generated in the session.
+ * @param layout How to arrange the polaroids.
+ * @param options The translated title, captions and headings.
+ * @returns A promise that resolves to a PDF Blob.
+ */
+export async function exportAlbumPdf(entries: AlbumEntry[], layout: AlbumLayout, options: AlbumOptions): Promise<Blob> {
+    const pages = await renderAlbumPages(entries, layout, options);
+    const jpegPages = await Promise.all(pages.map(async page => {
+        const blob = await canvasToBlob(page, 'image/jpeg', 0.92);
+        return new Uint8Array(await blob.arrayBuffer());
+    }));
+    return buildImagePdf(jpegPages, PAGE_WIDTH, PAGE_HEIGHT);
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface BoardCardLayout {
+    x: number;
+    y: number;
+    rotation: number;
+    favorite: boolean;
+}
+
+/** Card placement on the polaroid board, keyed by age. */
+export type BoardLayout = Record<number, BoardCardLayout>;
+
+const STORAGE_PREFIX = 'age-voyager-board:';
+const COLUMNS = 3;
+const ROWS = 3;
+const COLUMN_WIDTH = 160;
+const ROW_HEIGHT = 200;
+const PILE_OFFSET = 20;
+
+/**
+ * Picks a starting spot for a card that hasn't been placed yet: a loose grid with a little tilt.
+ * Once the grid is full, further cards pile up on top of it, slightly offset.
+ * @param index The card's position among the board's cards.
+ * @param age The card's age, used to vary the tilt deterministically.
+ */
+export function defaultCardLayout(index: number, age: number): BoardCardLayout {
+    const slot = index % (COLUMNS * ROWS);
+    const pile = Math.floor(index / (COLUMNS * ROWS));
+    return {
+        x: (slot % COLUMNS) * COLUMN_WIDTH + 16 + pile * PILE_OFFSET,
+        y: Math.floor(slot / COLUMNS) * ROW_HEIGHT + 16 + pile * PILE_OFFSET,
+        rotation: ((age * 37) % 11) - 5,
+        favorite: false,
+    };
+}
+
+/**
+ * Loads a saved board layout for a session.
+ * @param sessionId Identifies the session, e.g. a hash of the uploaded photo.
+ * @returns The saved layout, or an empty layout if none was saved or it couldn't be read.
+ */
+export function loadBoardLayout(sessionId: string): BoardLayout {
+    try {
+        const saved = localStorage.getItem(STORAGE_PREFIX + sessionId);
+        return saved ? JSON.parse(saved) as BoardLayout : {};
+    } catch (error) {
+        console.warn("Failed to load board layout:", error);
+        return {};
+    }
+}
+
+/**
+ * Saves a board layout for a session.
+ * @param sessionId Identifies the session, e.g. a hash of the uploaded photo.
+ * @param layout The layout to save.
+ */
+export function saveBoardLayout(sessionId: string, layout: BoardLayout): void {
+    try {
+        localStorage.setItem(STORAGE_PREFIX + sessionId, JSON.stringify(layout));
+    } catch (error) {
+        console.warn("Failed to save board layout:", error);
+    }
+}
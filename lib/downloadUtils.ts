@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Triggers a browser download for a URL (data URL or blob URL).
+ * @param url The URL to download.
+ * @param filename The suggested file name.
+ */
+export function downloadUrl(url: string, filename: string): void {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+}
+
+/**
+ * Triggers a browser download for a Blob, releasing its object URL afterwards.
+ * @param blob The data to download.
+ * @param filename The suggested file name.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    downloadUrl(url, filename);
+    // Give the browser a moment to start the download before revoking the URL.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MessageKey } from '../locales/en';
+
+export interface Era {
+    /** First year of the era, inclusive. */
+    start: number;
+    /** Last year of the era, inclusive. */
+    end: number;
+    /** The era's name, translated for display. */
+    labelKey: MessageKey;
+}
+
+/**
+ * Broad, recognisable periods used to label the calendar-year slider. They don't overlap.
+ */
+export const NOTABLE_ERAS: Era[] = [
+    { start: 1900, end: 1913, labelKey: 'era.edwardian' },
+    { start: 1914, end: 1918, labelKey: 'era.greatWar' },
+    { start: 1920, end: 1929, labelKey: 'era.roaringTwenties' },
+    { start: 1930, end: 1938, labelKey: 'era.depression' },
+    { start: 1939, end: 1945, labelKey: 'era.ww2' },
+    { start: 1950, end: 1959, labelKey: 'era.rockAndRoll' },
+    { start: 1960, end: 1969, labelKey: 'era.spaceAge' },
+    { start: 1970, end: 1979, labelKey: 'era.disco' },
+    { start: 1980, end: 1989, labelKey: 'era.neon80s' },
+    { start: 1990, end: 1999, labelKey: 'era.grunge' },
+    { start: 2000, end: 2009, labelKey: 'era.y2k' },
+    { start: 2010, end: 2019, labelKey: 'era.smartphones' },
+    { start: 2020, end: 2029, labelKey: 'era.streaming' },
+    { start: 2040, end: 9999, labelKey: 'era.future' },
+];
+
+/**
+ * Finds the notable era a year falls in, if any.
+ */
+export function eraForYear(year: number): Era | null {
+    return NOTABLE_ERAS.find(era => year >= era.start && year <= era.end) ?? null;
+}
+
+/**
+ * Lists the decade starts (1980, 1990, ...) within a range of years, inclusive.
+ */
+export function decadesBetween(minYear: number, maxYear: number): number[] {
+    const decades: number[] = [];
+    for (let decade = Math.ceil(minYear / 10) * 10; decade <= maxYear; decade += 10) {
+        decades.push(decade);
+    }
+    return decades;
+}
@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Reads a file into a data URL.
+ * @param file The file to read.
+ * @returns A promise that resolves to the file's contents as a data URL.
+ */
+export function readFileAsDataUrl(file: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = () => reject(reader.error ?? new Error("Could not read the file."));
+        reader.readAsDataURL(file);
+    });
+}
+
+const EXTENSIONS_BY_MIME_TYPE: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/webm': 'webm',
+    'video/mp4': 'mp4',
+};
+
+/**
+ * Picks the usual file extension for a MIME type, ignoring any parameters such as codecs.
+ * @param mimeType The MIME type, e.g. "image/png" or "video/webm;codecs=vp9".
+ * @returns The extension without a dot, or "bin" for unknown types.
+ */
+export function extensionForMimeType(mimeType: string): string {
+    return EXTENSIONS_BY_MIME_TYPE[mimeType.split(';')[0].trim().toLowerCase()] ?? 'bin';
+}
+
+/**
+ * Decodes a base64 data URL into a Blob of the same type.
+ * @param dataUrl A data URL string, e.g. "data:image/png;base64,...".
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+    const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (!match) {
+        throw new Error("Invalid data URL format.");
+    }
+    const [, mimeType, isBase64, payload] = match;
+    if (!isBase64) {
+        return new Blob([decodeURIComponent(payload)], { type: mimeType });
+    }
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+}
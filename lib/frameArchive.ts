@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createZip, ZipInput } from './zipUtils';
+import { prepareImageExport } from './provenance';
+import { dataUrlToBlob, extensionForMimeType } from './fileUtils';
+import type { GenerationInfo } from './sessionFile';
+import type { VideoResult } from './videoUtils';
+
+export interface ArchiveFrame extends Partial<GenerationInfo> {
+    age: number;
+    year: number;
+    imageUrl: string;
+}
+
+export interface FrameArchiveOptions {
+    /** The uploaded photo. */
+    sourceImage: string;
+    /** SHA-256 of the uploaded photo, recorded in each generated image's metadata. */
+    sourceImageHash: string;
+    /** The age in the uploaded photo; that frame is the original rather than a generated image. */
+    originalAge: number;
+    frames: ArchiveFrame[];
+    video: VideoResult | null;
+    /** The model that generated the frames. */
+    model: string;
+    /** Label generated images as AI-generated, as single downloads are. */
+    watermark: boolean;
+}
+
+interface ManifestRow {
+    age: number;
+    year: number;
+    file: string;
+    original: boolean;
+    prompt: string;
+    generatedAt: string;
+}
+
+const CSV_COLUMNS: (keyof ManifestRow)[] = ['age', 'year', 'file', 'original', 'prompt', 'generatedAt'];
+
+function toCsvField(value: string | number | boolean): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: ManifestRow[]): string {
+    const lines = [CSV_COLUMNS.join(','), ...rows.map(row => CSV_COLUMNS.map(column => toCsvField(row[column])).join(','))];
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Packages every frame, the original photo, the video and a manifest into one ZIP file.
+ * Generated frames get the same watermark and provenance metadata as single downloads.
+ * @param options What to include.
+ * @returns A promise that resolves to the ZIP archive.
+ */
+export async function createFrameArchive({
+    sourceImage,
+    sourceImageHash,
+    originalAge,
+    frames,
+    video,
+    model,
+    watermark,
+}: FrameArchiveOptions): Promise<Blob> {
+    const files: ZipInput[] = [];
+    const rows: ManifestRow[] = [];
+
+    const original = dataUrlToBlob(sourceImage);
+    const originalFile = `original.${extensionForMimeType(original.type)}`;
+    files.push({ name: originalFile, data: original });
+
+    const sortedFrames = [...frames].sort((a, b) => a.age - b.age);
+    for (const frame of sortedFrames) {
+        const isOriginal = frame.age === originalAge;
+        let file = originalFile;
+        if (!isOriginal) {
+            const { blob, extension } = await prepareImageExport(frame.imageUrl, {
+                watermark,
+                provenance: {
+                    sourceImageHash,
+                    targetAge: frame.age,
+                    prompt: frame.prompt,
+                    model,
+                    createdAt: frame.generatedAt || new Date().toISOString(),
+                },
+            });
+            file = `frames/age-${String(frame.age).padStart(3, '0')}-${frame.year}.${extension}`;
+            files.push({ name: file, data: blob });
+        }
+        rows.push({
+            age: frame.age,
+            year: frame.year,
+            file,
+            original: isOriginal,
+            prompt: frame.prompt ?? '',
+            generatedAt: frame.generatedAt ?? '',
+        });
+    }
+
+    let videoFile: string | null = null;
+    if (video) {
+        videoFile = `age-voyager-evolution.${video.extension}`;
+        files.push({ name: videoFile, data: await (await fetch(video.url)).blob() });
+    }
+
+    const manifest = {
+        exportedAt: new Date().toISOString(),
+        sourceImageSHA256: sourceImageHash,
+        model,
+        original: originalFile,
+        video: videoFile,
+        frames: rows,
+    };
+    files.push(
+        { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+        { name: 'manifest.csv', data: toCsv(rows) },
+    );
+    return createZip(files);
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MessageKey } from '../locales/en';
+
+/**
+ * How each video frame is produced:
+ * - 'independent': every frame from the original photo.
+ * - 'chained': every frame from its neighbour one step closer to the photo's age.
+ * - 'blended': every frame from the original photo, with that neighbour sent as an identity reference.
+ */
+export type FrameStrategy = 'independent' | 'chained' | 'blended';
+
+export const FRAME_STRATEGY_LABEL_KEYS: Record<FrameStrategy, MessageKey> = {
+    independent: 'video.strategy.independent',
+    chained: 'video.strategy.chained',
+    blended: 'video.strategy.blended',
+};
+
+/**
+ * Finds the frame a chained frame builds on: the nearest age between it and the anchor.
+ * Chains walk outward from the anchor in both directions, so the frames either side of it
+ * build on the original photo and everything further out builds on the frame before it.
+ * @param ages Every age in the video.
+ * @param anchorAge The person's age in the original photo.
+ * @param age The frame to find a neighbour for.
+ * @returns The neighbouring age, or undefined when the frame should start from the original photo.
+ */
+export function chainNeighbourAge(ages: number[], anchorAge: number, age: number): number | undefined {
+    const between = age > anchorAge
+        ? ages.filter(other => other >= anchorAge && other < age)
+        : ages.filter(other => other <= anchorAge && other > age);
+    if (between.length === 0) {
+        return undefined;
+    }
+    return age > anchorAge ? Math.max(...between) : Math.min(...between);
+}
@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { abortableDelay, isAbortError, raceWithSignal, throwIfAborted } from './abortUtils';
+
+export type FrameStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface FrameJob {
+    age: number;
+    status: FrameStatus;
+    url?: string;
+    error?: string;
+    /** The age of the failed frame this one needed, when that is why it couldn't be generated. */
+    blockedByAge?: number;
+    attempts: number;
+}
+
+export interface FrameQueueOptions {
+    /** How many frames may be generated at the same time. */
+    concurrency: number;
+    /** How many extra attempts a failing frame gets before it is marked as an error. */
+    maxRetries: number;
+    /** Base delay before a retry; doubles with each attempt. */
+    retryDelayMs?: number;
+    /**
+     * Overrides the retry delay for a failure, e.g. to honour a rate limit's retry-after.
+     * Returning null marks the frame as failed straight away. Still capped by maxRetries.
+     */
+    retryDelayFor?: (error: unknown, attempt: number) => number | null;
+    /**
+     * Stops the queue. Frames already done are kept so the run can be resumed; onUpdate
+     * isn't called again once the signal has been aborted.
+     */
+    signal?: AbortSignal;
+    /** Called with a fresh copy of every job whenever any job changes state. */
+    onUpdate?: (jobs: FrameJob[]) => void;
+    /**
+     * Names the age whose frame must be done before this job may start, e.g. when each frame
+     * is generated from its neighbour. Ages that aren't in the queue are ignored.
+     */
+    dependsOn?: (job: FrameJob) => number | undefined;
+}
+
+/**
+ * Creates pending jobs for a list of ages.
+ * @param ages The ages to generate, in playback order.
+ * @returns One pending FrameJob per age.
+ */
+export function createFrameJobs(ages: number[]): FrameJob[] {
+    return ages.map(age => ({ age, status: 'pending', attempts: 0 }));
+}
+
+/**
+ * Reports whether every job has produced a frame.
+ * @param jobs The jobs to check.
+ */
+export function isFrameQueueComplete(jobs: FrameJob[]): boolean {
+    return jobs.length > 0 && jobs.every(job => job.status === 'done');
+}
+
+/**
+ * Generates every frame that isn't done yet, running up to `concurrency` jobs in parallel.
+ * Frames that already have a result are skipped, so passing the jobs from an earlier,
+ * failed or interrupted run resumes it instead of starting over. A frame that keeps failing
+ * is marked as 'error' without stopping the rest of the queue, along with any frames that depend on it.
+ * @param jobs The frame jobs, typically from createFrameJobs or a previous run.
+ * @param generate Produces the image URL for a job. It also receives the current state of every job,
+ * so a job can build on the frame it depends on.
+ * @param options Concurrency, retry, dependency and progress settings.
+ * @returns A promise that resolves to the final state of every job.
+ */
+export async function runFrameQueue(
+    jobs: FrameJob[],
+    generate: (job: FrameJob, signal: AbortSignal | undefined, jobs: FrameJob[]) => Promise<string>,
+    options: FrameQueueOptions
+): Promise<FrameJob[]> {
+    const { concurrency, maxRetries, retryDelayMs = 1000, retryDelayFor, signal, onUpdate, dependsOn } = options;
+    const state = jobs.map(job => (job.status === 'done' ? job : { ...job, status: 'pending' as const, error: undefined, blockedByAge: undefined }));
+    const queue = state.map((_, index) => index).filter(index => state[index].status !== 'done');
+    const indexByAge = new Map(state.map((job, index) => [job.age, index]));
+
+    // Workers waiting for a dependency sleep here until another job finishes.
+    const waiters: (() => void)[] = [];
+    const notify = () => waiters.splice(0).forEach(wake => wake());
+    const waitForChange = () => raceWithSignal(new Promise<void>(resolve => waiters.push(resolve)), signal);
+
+    const dependencyOf = (index: number): number | undefined => {
+        const age = dependsOn?.(state[index]);
+        return age === undefined ? undefined : indexByAge.get(age);
+    };
+    const isReady = (index: number) => {
+        const dependency = dependencyOf(index);
+        return dependency === undefined || state[dependency].status === 'done' || state[dependency].status === 'error';
+    };
+
+    const update = (index: number, patch: Partial<FrameJob>) => {
+        state[index] = { ...state[index], ...patch };
+        // Nothing is reported once the queue has been stopped.
+        if (!signal?.aborted) onUpdate?.([...state]);
+    };
+
+    const runJob = async (index: number) => {
+        for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            throwIfAborted(signal);
+            update(index, { status: 'running', attempts: state[index].attempts + 1 });
+            try {
+                const url = await generate(state[index], signal, [...state]);
+                update(index, { status: 'done', url, error: undefined });
+                return;
+            } catch (error) {
+                // Leave the job as it is: the caller may have moved on, and a resumed run resets it anyway.
+                if (isAbortError(error) || signal?.aborted) {
+                    throw error;
+                }
+                const message = error instanceof Error ? error.message : String(error);
+                console.error(`Frame for age ${state[index].age} failed (attempt ${attempt + 1}/${maxRetries + 1}):`, error);
+                const delay = retryDelayFor ? retryDelayFor(error, attempt + 1) : retryDelayMs * Math.pow(2, attempt);
+                if (attempt === maxRetries || delay === null) {
+                    update(index, { status: 'error', error: message });
+                    return;
+                }
+                update(index, { status: 'pending', error: message });
+                await abortableDelay(delay, signal);
+            }
+        }
+    };
+
+    const worker = async () => {
+        while (queue.length > 0) {
+            throwIfAborted(signal);
+            const position = queue.findIndex(isReady);
+            if (position === -1) {
+                await waitForChange();
+                continue;
+            }
+            const [index] = queue.splice(position, 1);
+            const dependency = dependencyOf(index);
+            if (dependency !== undefined && state[dependency].status === 'error') {
+                update(index, { status: 'error', error: `Needs the frame for age ${state[dependency].age}, which failed.`, blockedByAge: state[dependency].age });
+            } else {
+                await runJob(index);
+            }
+            notify();
+        }
+        // Let waiting workers see that the queue has drained.
+        notify();
+    };
+
+    onUpdate?.([...state]);
+    const workers = Array.from({ length: Math.max(1, Math.min(concurrency, queue.length)) }, worker);
+    const results = await Promise.allSettled(workers);
+    const aborted = results.find(result => result.status === 'rejected');
+    if (aborted) {
+        throw (aborted as PromiseRejectedResult).reason;
+    }
+    return state;
+}
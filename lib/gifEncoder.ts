@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A small, dependency-free animated GIF encoder.
+ * Each frame gets its own 256-colour palette, built by median cut over a sample of its pixels.
+ */
+
+export interface GifEncoder {
+    /**
+     * Quantizes and compresses one frame.
+     * @param pixels RGBA pixels, e.g. from CanvasRenderingContext2D.getImageData().
+     * @param delayMs How long the frame is shown. GIF stores this in hundredths of a second.
+     */
+    addFrame(pixels: ImageData, delayMs: number): void;
+    /** Writes the trailer and returns the finished file. */
+    finish(): Blob;
+}
+
+const MAX_SAMPLES = 20000;
+const MAX_CODE = 4095;
+
+interface ByteWriter {
+    byte(value: number): void;
+    word(value: number): void;
+    bytes(values: ArrayLike<number>): void;
+    text(value: string): void;
+    parts(): Uint8Array[];
+}
+
+/**
+ * Creates a little-endian byte writer that grows in fixed-size chunks.
+ */
+function createByteWriter(): ByteWriter {
+    const chunks: Uint8Array[] = [];
+    const buffer = new Uint8Array(4096);
+    let length = 0;
+
+    const flush = () => {
+        if (length > 0) {
+            chunks.push(buffer.slice(0, length));
+            length = 0;
+        }
+    };
+
+    const byte = (value: number) => {
+        if (length === buffer.length) {
+            flush();
+        }
+        buffer[length++] = value & 0xff;
+    };
+
+    return {
+        byte,
+        word(value) {
+            byte(value);
+            byte(value >> 8);
+        },
+        bytes(values) {
+            for (let i = 0; i < values.length; i++) {
+                byte(values[i]);
+            }
+        },
+        text(value) {
+            for (let i = 0; i < value.length; i++) {
+                byte(value.charCodeAt(i));
+            }
+        },
+        parts() {
+            flush();
+            return chunks;
+        },
+    };
+}
+
+/**
+ * Builds a palette of up to 256 colours by repeatedly splitting the box with the widest channel range.
+ * @returns A flat [r, g, b, r, g, b, ...] palette padded to 256 entries.
+ */
+function buildPalette(pixels: Uint8ClampedArray): Uint8Array {
+    const pixelCount = pixels.length / 4;
+    const step = Math.max(1, Math.floor(pixelCount / MAX_SAMPLES));
+    const samples: number[][] = [];
+    for (let i = 0; i < pixelCount; i += step) {
+        samples.push([pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2]]);
+    }
+
+    let boxes: number[][][] = [samples];
+    while (boxes.length < 256) {
+        let widest = -1;
+        let widestRange = 0;
+        let widestChannel = 0;
+        boxes.forEach((colors, index) => {
+            if (colors.length < 2) return;
+            for (let channel = 0; channel < 3; channel++) {
+                let min = 255;
+                let max = 0;
+                for (const color of colors) {
+                    if (color[channel] < min) min = color[channel];
+                    if (color[channel] > max) max = color[channel];
+                }
+                if (max - min > widestRange) {
+                    widestRange = max - min;
+                    widest = index;
+                    widestChannel = channel;
+                }
+            }
+        });
+        if (widest === -1) break;
+
+        const colors = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+        const middle = Math.floor(colors.length / 2);
+        boxes = [...boxes.slice(0, widest), colors.slice(0, middle), colors.slice(middle), ...boxes.slice(widest + 1)];
+    }
+
+    const palette = new Uint8Array(256 * 3);
+    boxes.forEach((colors, index) => {
+        const sum = [0, 0, 0];
+        for (const color of colors) {
+            sum[0] += color[0];
+            sum[1] += color[1];
+            sum[2] += color[2];
+        }
+        for (let channel = 0; channel < 3; channel++) {
+            palette[index * 3 + channel] = Math.round(sum[channel] / Math.max(1, colors.length));
+        }
+    });
+    return palette;
+}
+
+/**
+ * Maps every pixel to its nearest palette entry, caching lookups per 15-bit colour.
+ */
+function indexPixels(pixels: Uint8ClampedArray, palette: Uint8Array): Uint8Array {
+    const cache = new Int16Array(32768).fill(-1);
+    const indices = new Uint8Array(pixels.length / 4);
+    for (let i = 0; i < indices.length; i++) {
+        const r = pixels[i * 4];
+        const g = pixels[i * 4 + 1];
+        const b = pixels[i * 4 + 2];
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+        let best = cache[key];
+        if (best === -1) {
+            let bestDistance = Infinity;
+            for (let entry = 0; entry < 256; entry++) {
+                const dr = r - palette[entry * 3];
+                const dg = g - palette[entry * 3 + 1];
+                const db = b - palette[entry * 3 + 2];
+                const distance = dr * dr + dg * dg + db * db;
+                if (distance < bestDistance) {
+                    bestDistance = distance;
+                    best = entry;
+                }
+            }
+            cache[key] = best;
+        }
+        indices[i] = best;
+    }
+    return indices;
+}
+
+/**
+ * Compresses palette indices with GIF's variable-width LZW and writes them as data sub-blocks.
+ */
+function writeLzw(writer: ByteWriter, indices: Uint8Array) {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    const block: number[] = [];
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+
+    const emit = (code: number) => {
+        bitBuffer |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bitBuffer & 0xff);
+            bitBuffer >>>= 8;
+            bitCount -= 8;
+            if (block.length === 255) {
+                writer.byte(255);
+                writer.bytes(block);
+                block.length = 0;
+            }
+        }
+    };
+
+    writer.byte(minCodeSize);
+    emit(clearCode);
+
+    let prefix = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const pixel = indices[i];
+        const key = (prefix << 8) | pixel;
+        const existing = dictionary.get(key);
+        if (existing !== undefined) {
+            prefix = existing;
+            continue;
+        }
+
+        emit(prefix);
+        if (nextCode <= MAX_CODE) {
+            dictionary.set(key, nextCode);
+            if (nextCode === 1 << codeSize && codeSize < 12) {
+                codeSize++;
+            }
+            nextCode++;
+        } else {
+            emit(clearCode);
+            dictionary = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        }
+        prefix = pixel;
+    }
+    emit(prefix);
+    emit(endCode);
+
+    if (bitCount > 0) {
+        block.push(bitBuffer & 0xff);
+    }
+    if (block.length > 0) {
+        writer.byte(block.length);
+        writer.bytes(block);
+    }
+    writer.byte(0); // Block terminator.
+}
+
+/**
+ * Creates an encoder for a looping animated GIF.
+ * @param width The frame width in pixels.
+ * @param height The frame height in pixels.
+ * @returns A new GifEncoder.
+ */
+export function createGifEncoder(width: number, height: number): GifEncoder {
+    const writer = createByteWriter();
+
+    writer.text('GIF89a');
+    writer.word(width);
+    writer.word(height);
+    writer.byte(0x00); // No global colour table.
+    writer.byte(0);    // Background colour index.
+    writer.byte(0);    // Pixel aspect ratio.
+
+    // NETSCAPE2.0 application extension: loop forever.
+    writer.bytes([0x21, 0xff, 0x0b]);
+    writer.text('NETSCAPE2.0');
+    writer.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+    const addFrame = (pixels: ImageData, delayMs: number) => {
+        const palette = buildPalette(pixels.data);
+        const indices = indexPixels(pixels.data, palette);
+
+        // Graphic control extension: frame delay, no transparency.
+        writer.bytes([0x21, 0xf9, 0x04, 0x04]);
+        writer.word(Math.max(2, Math.round(delayMs / 10)));
+        writer.bytes([0x00, 0x00]);
+
+        // Image descriptor with a 256-entry local colour table.
+        writer.byte(0x2c);
+        writer.word(0);
+        writer.word(0);
+        writer.word(width);
+        writer.word(height);
+        writer.byte(0x87);
+        writer.bytes(palette);
+
+        writeLzw(writer, indices);
+    };
+
+    const finish = () => {
+        writer.byte(0x3b);
+        return new Blob(writer.parts(), { type: 'image/gif' });
+    };
+
+    return { addFrame, finish };
+}
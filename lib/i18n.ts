@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { en, MessageKey } from '../locales/en';
+import { it } from '../locales/it';
+
+/**
+ * Translation and locale-aware formatting for the UI. Prompts sent to the model are built
+ * separately and always stay in English, so output quality doesn't depend on the UI language.
+ */
+
+export type Locale = 'en' | 'it';
+
+export type MessageParams = Record<string, string | number>;
+
+/** A message to show, kept as a key so it can be rendered in whichever language is active. */
+export interface MessageDescriptor {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+/** An error meant for the user, kept as a message so it is shown in whichever language is active. */
+export interface LocalizedError extends Error {
+    userMessage: MessageDescriptor;
+}
+
+/** Keys with `.one`/`.other` variants, for messages that depend on a count. */
+export type PluralMessageKey = MessageKey extends infer K ? (K extends `${infer Base}.other` ? Base : never) : never;
+
+export const LOCALE_LABELS: Record<Locale, string> = {
+    en: 'English',
+    it: 'Italiano',
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = { en, it };
+const STORAGE_KEY = 'age-voyager-locale';
+
+function isLocale(value: unknown): value is Locale {
+    return typeof value === 'string' && value in MESSAGES;
+}
+
+/**
+ * Picks the starting language: the user's last choice, otherwise the browser's language, otherwise English.
+ */
+export function detectLocale(): Locale {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch {
+        // Storage can be unavailable, e.g. in some private browsing modes.
+    }
+    const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+    for (const language of languages) {
+        const base = language.split('-')[0].toLowerCase();
+        if (isLocale(base)) return base;
+    }
+    return 'en';
+}
+
+/**
+ * Remembers the user's language choice for their next visit.
+ */
+export function saveLocale(locale: Locale): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch (error) {
+        console.warn("Failed to save language preference:", error);
+    }
+}
+
+/**
+ * Looks up a message and fills in its `{param}` placeholders.
+ * Falls back to English for a missing translation, and to the key itself as a last resort.
+ * @param locale The language to translate into.
+ * @param key The message key.
+ * @param params Values for the placeholders. Numbers are inserted as-is, so format them first.
+ * @returns The translated text.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+    const template = MESSAGES[locale][key] ?? en[key] ?? key;
+    return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+}
+
+/**
+ * Translates a message whose wording depends on a count, using the locale's plural rules.
+ * The count is available to the message as `{count}`, formatted for the locale.
+ */
+export function translatePlural(locale: Locale, key: PluralMessageKey, count: number, params: MessageParams = {}): string {
+    const variant = `${key}.${new Intl.PluralRules(locale).select(count)}`;
+    const messageKey = (variant in en ? variant : `${key}.other`) as MessageKey;
+    return translate(locale, messageKey, { count: formatNumber(locale, count), ...params });
+}
+
+/**
+ * Formats a number with the locale's digit grouping and decimal separator.
+ */
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions): string {
+    return new Intl.NumberFormat(locale, options).format(value);
+}
+
+/**
+ * Formats a calendar year. Years are never grouped, so 1984 doesn't become "1,984".
+ */
+export function formatYear(locale: Locale, year: number): string {
+    return new Intl.NumberFormat(locale, { useGrouping: false }).format(year);
+}
+
+/**
+ * Creates an error whose explanation can be shown to the user in any language.
+ * Its own message is the English text, for logs.
+ * @param key The message explaining what went wrong.
+ * @param params Values for the message's placeholders.
+ * @param cause The underlying error, if any.
+ */
+export function createLocalizedError(key: MessageKey, params?: MessageParams, cause?: unknown): LocalizedError {
+    const error = new Error(translate('en', key, params), cause === undefined ? undefined : { cause });
+    return Object.assign(error, { name: 'LocalizedError', userMessage: { key, params } });
+}
+
+export function isLocalizedError(error: unknown): error is LocalizedError {
+    return error instanceof Error && typeof (error as Partial<LocalizedError>).userMessage?.key === 'string';
+}
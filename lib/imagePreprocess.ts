@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createLocalizedError } from './i18n';
+
+/**
+ * Prepares uploaded photos before they are sent to the model: checks the file, turns it upright
+ * according to its EXIF orientation, shrinks it and re-encodes it as a JPEG. The whole frame is
+ * kept, so a group photo still has everyone in it when the user picks whose age to change.
+ */
+
+export interface PreprocessOptions {
+    /** The longest side of the output, in pixels. Smaller images are never scaled up. */
+    maxDimension: number;
+    /** JPEG quality, from 0 to 1. */
+    quality: number;
+    /** Files larger than this are rejected before decoding. */
+    maxFileBytes: number;
+}
+
+export const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    maxDimension: 1024,
+    quality: 0.9,
+    maxFileBytes: 25 * 1024 * 1024,
+};
+
+function toMegabytes(bytes: number): string {
+    return (bytes / (1024 * 1024)).toFixed(1);
+}
+
+/**
+ * Checks that a file is a photo the app can use.
+ * @param file The file picked by the user.
+ * @param maxFileBytes The largest accepted file size.
+ * @throws A LocalizedError explaining the problem to the user.
+ */
+export function validateImageFile(file: File, maxFileBytes = DEFAULT_PREPROCESS_OPTIONS.maxFileBytes): void {
+    if (!SUPPORTED_IMAGE_TYPES.includes(file.type)) {
+        throw file.type
+            ? createLocalizedError('errors.photo.unsupportedType', { type: file.type })
+            : createLocalizedError('errors.photo.unknownType');
+    }
+    if (file.size === 0) {
+        throw createLocalizedError('errors.photo.empty');
+    }
+    if (file.size > maxFileBytes) {
+        throw createLocalizedError('errors.photo.tooLarge', { size: toMegabytes(file.size), max: toMegabytes(maxFileBytes) });
+    }
+}
+
+/**
+ * Validates, straightens, resizes and re-encodes a photo.
+ * @param file The file picked by the user.
+ * @param options Overrides for {@link DEFAULT_PREPROCESS_OPTIONS}.
+ * @returns A promise that resolves to a JPEG data URL of the prepared photo.
+ * @throws A LocalizedError explaining the problem to the user when the file can't be used.
+ */
+export async function preprocessImage(file: File, options: Partial<PreprocessOptions> = {}): Promise<string> {
+    const { maxDimension, quality, maxFileBytes } = { ...DEFAULT_PREPROCESS_OPTIONS, ...options };
+    validateImageFile(file, maxFileBytes);
+
+    let bitmap: ImageBitmap;
+    try {
+        // Let the browser apply the EXIF orientation, so the bitmap's width and height are already upright.
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch (error) {
+        throw createLocalizedError('errors.photo.unreadable', undefined, error);
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const output = document.createElement('canvas');
+    output.width = Math.round(bitmap.width * scale);
+    output.height = Math.round(bitmap.height * scale);
+    const ctx = output.getContext('2d');
+    if (!ctx) {
+        bitmap.close();
+        throw new Error("Could not get canvas context.");
+    }
+    // JPEG has no transparency, so give transparent PNGs and WebPs a white background instead of black.
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, output.width, output.height);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, output.width, output.height);
+    bitmap.close();
+    return output.toDataURL('image/jpeg', quality);
+}
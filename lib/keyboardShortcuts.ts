@@ -0,0 +1,69 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Keyboard shortcuts for the interactive session. Keys are ignored while the user is typing or
+ * operating a control that uses them itself, such as a slider or a select. The arrow and page keys
+ * only step the age with focus inside the photo viewer or the board, so elsewhere they still scroll the page.
+ */
+
+export type ShortcutAction =
+    | { type: 'step-age'; delta: number }
+    | { type: 'download' }
+    | { type: 'create-video' };
+
+/** How far PageUp and PageDown move the age. */
+export const DECADE_STEP = 10;
+
+const STEP_KEYS: Record<string, number> = {
+    ArrowLeft: -1,
+    ArrowDown: -1,
+    ArrowRight: 1,
+    ArrowUp: 1,
+    PageDown: -DECADE_STEP,
+    PageUp: DECADE_STEP,
+};
+
+/** Values for `aria-keyshortcuts` on the controls the shortcuts trigger. */
+export const SHORTCUT_KEYS = {
+    download: 'D',
+    createVideo: 'V',
+};
+
+// Elements that handle these keys themselves; a shortcut there would fight the control.
+const KEY_CONSUMING_SELECTOR = 'input, textarea, select, video, [contenteditable="true"], [role="slider"], [role="dialog"]';
+
+// Marks the regions where the arrow and page keys step the age.
+const AGE_STEP_REGION_SELECTOR = '[data-age-step-region]';
+
+function isInAgeStepRegion(target: EventTarget | null): boolean {
+    return target instanceof Element && target.closest(AGE_STEP_REGION_SELECTOR) !== null;
+}
+
+function isKeyConsumingTarget(target: EventTarget | null): boolean {
+    return target instanceof Element && target.closest(KEY_CONSUMING_SELECTOR) !== null;
+}
+
+/**
+ * Works out which shortcut, if any, a key press triggers.
+ * @param event The keydown event.
+ * @returns The action to run, or null when the key isn't a shortcut in this context.
+ */
+export function shortcutForKeyEvent(event: KeyboardEvent): ShortcutAction | null {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey || isKeyConsumingTarget(event.target)) {
+        return null;
+    }
+    if (event.key in STEP_KEYS) {
+        return isInAgeStepRegion(event.target) ? { type: 'step-age', delta: STEP_KEYS[event.key] } : null;
+    }
+    switch (event.key.toUpperCase()) {
+        case SHORTCUT_KEYS.download:
+            return { type: 'download' };
+        case SHORTCUT_KEYS.createVideo:
+            return { type: 'create-video' };
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isAbortError } from './abortUtils';
+
+export type LatestWinsOutcome<T> =
+    | { status: 'fulfilled'; value: T }
+    | { status: 'rejected'; error: unknown }
+    | { status: 'superseded' };
+
+export interface LatestWinsScheduler {
+    /**
+     * Runs a task, aborting whichever task was running before it.
+     * Resolves with 'superseded' if a newer task was started (or cancel() was called) before this one settled.
+     */
+    run<T>(task: (signal: AbortSignal) => Promise<T>): Promise<LatestWinsOutcome<T>>;
+    /** Aborts the current task, if any. */
+    cancel(): void;
+}
+
+/**
+ * Creates a scheduler where only the most recently started task may deliver a result.
+ * Older tasks are aborted through their AbortSignal, and any result they still produce is discarded.
+ * @returns A new LatestWinsScheduler.
+ */
+export function createLatestWinsScheduler(): LatestWinsScheduler {
+    let currentController: AbortController | null = null;
+    let generation = 0;
+
+    const cancel = () => {
+        generation += 1;
+        currentController?.abort();
+        currentController = null;
+    };
+
+    const run = async <T,>(task: (signal: AbortSignal) => Promise<T>): Promise<LatestWinsOutcome<T>> => {
+        cancel();
+        const controller = new AbortController();
+        const ticket = generation;
+        currentController = controller;
+
+        try {
+            const value = await task(controller.signal);
+            if (ticket !== generation) return { status: 'superseded' };
+            return { status: 'fulfilled', value };
+        } catch (error) {
+            if (ticket !== generation || isAbortError(error)) return { status: 'superseded' };
+            return { status: 'rejected', error };
+        } finally {
+            if (currentController === controller) {
+                currentController = null;
+            }
+        }
+    };
+
+    return { run, cancel };
+}
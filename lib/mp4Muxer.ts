@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A minimal MP4 (ISO BMFF) muxer for a single H.264 video track of WebCodecs chunks.
+ * Chunks are buffered in memory; finalize() writes a "fast start" file with the
+ * moov box ahead of the media data, so playback can begin before the download ends.
+ */
+
+export interface Mp4MuxerOptions {
+    width: number;
+    height: number;
+}
+
+export interface Mp4Muxer {
+    /**
+     * Buffers an encoded chunk from a VideoEncoder output callback.
+     * The encoder must be configured with `avc: { format: 'avc' }` so the metadata carries an avcC record.
+     */
+    addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void;
+    /** Writes the buffered chunks into a complete MP4 file. */
+    finalize(): Blob;
+}
+
+interface Sample {
+    data: Uint8Array;
+    timestampUs: number;
+    durationUs: number;
+    keyFrame: boolean;
+}
+
+const TIMESCALE = 90000;
+const MOVIE_TIMESCALE = 1000;
+const IDENTITY_MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const length = parts.reduce((total, part) => total + part.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function u8(value: number): Uint8Array {
+    return new Uint8Array([value & 0xff]);
+}
+
+function u16(value: number): Uint8Array {
+    const bytes = new Uint8Array(2);
+    new DataView(bytes.buffer).setUint16(0, value);
+    return bytes;
+}
+
+function u32(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+}
+
+function ascii(value: string): Uint8Array {
+    return new Uint8Array([...value].map(char => char.charCodeAt(0)));
+}
+
+function zeros(length: number): Uint8Array {
+    return new Uint8Array(length);
+}
+
+function box(type: string, ...payload: Uint8Array[]): Uint8Array {
+    const body = concat(payload);
+    return concat([u32(body.length + 8), ascii(type), body]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Uint8Array {
+    return box(type, u8(version), u8(flags >> 16), u8(flags >> 8), u8(flags), ...payload);
+}
+
+function matrix(): Uint8Array {
+    return concat(IDENTITY_MATRIX.map(u32));
+}
+
+function toTimescale(microseconds: number, timescale: number): number {
+    return Math.round((microseconds * timescale) / 1_000_000);
+}
+
+/**
+ * Writes the sample table: timing, sync samples, sizes, and the single chunk offset.
+ */
+function sampleTable(samples: Sample[], avcC: Uint8Array, options: Mp4MuxerOptions, mdatDataOffset: number): Uint8Array {
+    const avc1 = box('avc1',
+        zeros(6), u16(1),                 // reserved, data_reference_index
+        zeros(16),                        // pre_defined, reserved
+        u16(options.width), u16(options.height),
+        u32(0x00480000), u32(0x00480000), // 72 dpi
+        zeros(4), u16(1),                 // reserved, frame_count
+        zeros(32),                        // compressorname
+        u16(0x0018), u16(0xffff),         // depth, pre_defined
+        box('avcC', avcC)
+    );
+
+    // Run-length encode the sample durations.
+    const timeToSample: [number, number][] = [];
+    for (const sample of samples) {
+        const delta = toTimescale(sample.durationUs, TIMESCALE);
+        const last = timeToSample[timeToSample.length - 1];
+        if (last && last[1] === delta) {
+            last[0] += 1;
+        } else {
+            timeToSample.push([1, delta]);
+        }
+    }
+    const syncSamples = samples.flatMap((sample, index) => (sample.keyFrame ? [index + 1] : []));
+
+    return box('stbl',
+        fullBox('stsd', 0, 0, u32(1), avc1),
+        fullBox('stts', 0, 0, u32(timeToSample.length), ...timeToSample.flatMap(([count, delta]) => [u32(count), u32(delta)])),
+        fullBox('stss', 0, 0, u32(syncSamples.length), ...syncSamples.map(u32)),
+        fullBox('stsc', 0, 0, u32(1), u32(1), u32(samples.length), u32(1)),
+        fullBox('stsz', 0, 0, u32(0), u32(samples.length), ...samples.map(sample => u32(sample.data.length))),
+        fullBox('stco', 0, 0, u32(1), u32(mdatDataOffset))
+    );
+}
+
+function movieBox(samples: Sample[], avcC: Uint8Array, options: Mp4MuxerOptions, mdatDataOffset: number): Uint8Array {
+    const durationUs = samples.reduce((total, sample) => total + sample.durationUs, 0);
+    const movieDuration = toTimescale(durationUs, MOVIE_TIMESCALE);
+
+    return box('moov',
+        fullBox('mvhd', 0, 0,
+            u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(movieDuration),
+            u32(0x00010000), u16(0x0100), zeros(10), // rate, volume, reserved
+            matrix(), zeros(24), u32(2)              // pre_defined, next_track_ID
+        ),
+        box('trak',
+            fullBox('tkhd', 0, 3, // enabled, in movie
+                u32(0), u32(0), u32(1), zeros(4), u32(movieDuration),
+                zeros(8), u16(0), u16(0), u16(0), zeros(2), // reserved, layer, alternate_group, volume, reserved
+                matrix(), u32(options.width << 16), u32(options.height << 16)
+            ),
+            box('mdia',
+                fullBox('mdhd', 0, 0, u32(0), u32(0), u32(TIMESCALE), u32(toTimescale(durationUs, TIMESCALE)), u16(0x55c4), u16(0)), // language "und"
+                fullBox('hdlr', 0, 0, u32(0), ascii('vide'), zeros(12), ascii('VideoHandler\0')),
+                box('minf',
+                    fullBox('vmhd', 0, 1, zeros(8)),
+                    box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+                    sampleTable(samples, avcC, options, mdatDataOffset)
+                )
+            )
+        )
+    );
+}
+
+/**
+ * Creates a muxer for one H.264 video track.
+ * @param options The frame size of the track.
+ * @returns A new Mp4Muxer.
+ */
+export function createMp4Muxer(options: Mp4MuxerOptions): Mp4Muxer {
+    const samples: Sample[] = [];
+    let avcC: Uint8Array | null = null;
+
+    const addVideoChunk = (chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata) => {
+        const description = metadata?.decoderConfig?.description;
+        if (description && !avcC) {
+            avcC = description instanceof ArrayBuffer
+                ? new Uint8Array(description.slice(0))
+                : new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength));
+        }
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        samples.push({ data, timestampUs: chunk.timestamp, durationUs: chunk.duration ?? 0, keyFrame: chunk.type === 'key' });
+    };
+
+    const finalize = (): Blob => {
+        if (!avcC) {
+            throw new Error("The H.264 encoder did not provide a decoder configuration.");
+        }
+
+        const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii('avc1'), ascii('mp41'));
+        // The moov box size doesn't depend on the offset value, so measure it once with a placeholder.
+        const moovLength = movieBox(samples, avcC, options, 0).length;
+        const mdatDataOffset = ftyp.length + moovLength + 8;
+        const moov = movieBox(samples, avcC, options, mdatDataOffset);
+        const mdatLength = samples.reduce((total, sample) => total + sample.data.length, 0) + 8;
+
+        return new Blob(
+            [ftyp, moov, u32(mdatLength), ascii('mdat'), ...samples.map(sample => sample.data)],
+            { type: 'video/mp4' }
+        );
+    };
+
+    return { addVideoChunk, finalize };
+}
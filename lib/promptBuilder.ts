@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MessageKey } from '../locales/en';
+
+export type PromptPresetId = 'realistic' | 'yearbook' | 'fantasy' | 'superhero' | 'historical';
+
+/** What a preset needs to know about the frame being generated. */
+export interface PromptContext {
+    age: number;
+    /** The calendar year the person reaches `age`. */
+    year: number;
+}
+
+export interface PromptPreset {
+    id: PromptPresetId;
+    labelKey: MessageKey;
+    /** A one-line summary shown in the picker. */
+    descriptionKey: MessageKey;
+    clothing: (context: PromptContext) => string;
+    background: (context: PromptContext) => string;
+    medium: (context: PromptContext) => string;
+    /** How strictly the person's likeness must be kept, and what may change. */
+    identity: string;
+}
+
+export interface AgePromptOptions extends PromptContext {
+    preset: PromptPresetId;
+    /** Extra instruction that points the model at one person in a group photo. */
+    subjectClause?: string;
+    /** Which input leads the prompt: the age, or the calendar year when the user scrubs by year. */
+    emphasis?: 'age' | 'year';
+    /** The age shown in the input image, when it isn't the original upload (e.g. a chained video frame). */
+    sourceAge?: number;
+}
+
+const DEFAULT_IDENTITY = "Preserve the person's core identity: face shape, eye colour, and distinctive features must stay recognisable.";
+
+/**
+ * Describes how a photo taken in `year` would look, from daguerreotypes to modern digital.
+ */
+function eraPhotoMedium(year: number): string {
+    if (year < 1890) return 'a sepia daguerreotype or albumen print with soft focus and faded edges';
+    if (year < 1940) return 'a black and white film photograph with visible grain';
+    if (year < 1970) return 'a mid-century film photograph with film grain and muted, early colour';
+    if (year < 2000) return 'a colour film snapshot with warm tones and slight softness';
+    if (year <= new Date().getFullYear()) return 'a sharp, modern digital photograph';
+    return 'an ultra high resolution photograph from the near future, with subtle futuristic styling';
+}
+
+function decadeOf(year: number): string {
+    return `${Math.floor(year / 10) * 10}s`;
+}
+
+export const PROMPT_PRESETS: Record<PromptPresetId, PromptPreset> = {
+    realistic: {
+        id: 'realistic',
+        labelKey: 'presets.realistic.label',
+        descriptionKey: 'presets.realistic.description',
+        clothing: ({ year }) => `everyday clothing and hairstyle typical of ${year}`,
+        background: ({ year }) => `an ordinary setting that fits the year ${year}`,
+        medium: ({ year }) => eraPhotoMedium(year),
+        identity: `${DEFAULT_IDENTITY} The output must be a photorealistic image.`,
+    },
+    yearbook: {
+        id: 'yearbook',
+        labelKey: 'presets.yearbook.label',
+        descriptionKey: 'presets.yearbook.description',
+        clothing: ({ year }) => `smart portrait-day clothing and a hairstyle fashionable in the ${decadeOf(year)}`,
+        background: ({ year }) => `a plain studio backdrop typical of ${decadeOf(year)} yearbook photos`,
+        medium: ({ year }) => `a head-and-shoulders yearbook portrait with the lighting and print quality of the ${decadeOf(year)}`,
+        identity: `${DEFAULT_IDENTITY} Keep the pose front-facing with a natural smile. The output must be a photorealistic image.`,
+    },
+    fantasy: {
+        id: 'fantasy',
+        labelKey: 'presets.fantasy.label',
+        descriptionKey: 'presets.fantasy.description',
+        clothing: ({ age }) => age < 16
+            ? 'the tunic and cloak of a young apprentice adventurer'
+            : 'ornate fantasy armour or flowing mage robes with magical details',
+        background: () => 'a sweeping fantasy landscape with castles, forests, or glowing ruins',
+        medium: () => 'a richly detailed digital painting in the style of fantasy concept art',
+        identity: `${DEFAULT_IDENTITY} The art style may be painterly, but the person must look like themselves at this age.`,
+    },
+    superhero: {
+        id: 'superhero',
+        labelKey: 'presets.superhero.label',
+        descriptionKey: 'presets.superhero.description',
+        clothing: ({ age }) => age < 16
+            ? 'a homemade superhero costume with a cape'
+            : age >= 65
+                ? 'a classic, slightly worn superhero suit of a retired legend'
+                : 'a sleek, original superhero suit with an emblem on the chest',
+        background: () => 'a dramatic city skyline at dusk',
+        medium: () => 'a cinematic, high-contrast movie still with dynamic lighting',
+        identity: `${DEFAULT_IDENTITY} Keep the face uncovered. Do not copy any existing character's costume.`,
+    },
+    historical: {
+        id: 'historical',
+        labelKey: 'presets.historical.label',
+        descriptionKey: 'presets.historical.description',
+        clothing: ({ year }) => `formal attire worn by a statesperson, scientist, or artist of ${year}`,
+        background: ({ year }) => `a setting from a notable historical event or place of the ${decadeOf(year)}`,
+        medium: ({ year }) => `${eraPhotoMedium(year)}, composed like an archival portrait`,
+        identity: `${DEFAULT_IDENTITY} Do not turn them into a real historical person; they remain themselves. The output must be a photorealistic image.`,
+    },
+};
+
+/**
+ * Builds the generation prompt for one age, so every caller asks for the same thing.
+ * @param options The preset, the target age and year, an optional subject instruction, and which of age or year leads.
+ * @returns The full prompt text.
+ */
+export function buildAgePrompt({ preset, age, year, subjectClause = '', emphasis = 'age', sourceAge }: AgePromptOptions): string {
+    const { clothing, background, medium, identity } = PROMPT_PRESETS[preset];
+    const context = { age, year };
+    const opening = emphasis === 'year'
+        ? `Show the person in the original photo as they would be in the year ${year}, when they are at the age of ${age}. Everything in the image should belong to ${year}.`
+        : `Reimagine the person in the original photo at the age of ${age}, as they would look in the year ${year}.`;
+    return [
+        ...(sourceAge !== undefined ? [`The input photo shows the person at the age of ${sourceAge}; change only as much as ${Math.abs(age - sourceAge)} years would.`] : []),
+        opening,
+        `Dress them in ${clothing(context)}.`,
+        `Place them in ${background(context)}.`,
+        `The image should look like ${medium(context)}.`,
+        identity,
+    ].join(' ') + subjectClause;
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { crc32 } from './zipUtils';
+import { dataUrlToBlob, extensionForMimeType } from './fileUtils';
+
+/**
+ * Marks exported images as AI-generated: optionally with a visible label, and always with
+ * embedded metadata (XMP for JPEG, text chunks for PNG) recording how the image was made.
+ */
+
+export interface ProvenanceInfo {
+    /** SHA-256 of the uploaded photo the image was generated from. */
+    sourceImageHash: string;
+    targetAge: number;
+    prompt?: string;
+    model: string;
+    /** ISO 8601 timestamp. */
+    createdAt: string;
+}
+
+export interface ImageExportOptions {
+    /** Draw a visible "AI-generated" label on the image. */
+    watermark: boolean;
+    /** Metadata to embed. Omit for images that weren't generated, such as the original photo. */
+    provenance?: ProvenanceInfo;
+}
+
+export interface ImageExport {
+    blob: Blob;
+    /** The file extension matching the image's actual type, without a dot. */
+    extension: string;
+}
+
+const SOFTWARE_NAME = 'Age Voyager';
+const WATERMARK_TEXT = 'AI-generated';
+// IPTC's term for media created by a generative model.
+const DIGITAL_SOURCE_TYPE = 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia';
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const PNG_SIGNATURE_LENGTH = 8;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Could not load the image to export."));
+        img.src = src;
+    });
+}
+
+/**
+ * Draws a small "AI-generated" label in the bottom corner of an image.
+ * @param dataUrl The image to label.
+ * @returns A promise that resolves to the labelled image, in the same format where the browser can encode it.
+ */
+export async function drawWatermark(dataUrl: string): Promise<Blob> {
+    const img = await loadImage(dataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not get canvas context.");
+    }
+    ctx.drawImage(img, 0, 0);
+
+    const fontSize = Math.max(12, Math.round(canvas.width * 0.028));
+    const padding = Math.round(fontSize * 0.5);
+    ctx.font = `600 ${fontSize}px sans-serif`;
+    ctx.textBaseline = 'middle';
+    const labelWidth = ctx.measureText(WATERMARK_TEXT).width + padding * 2;
+    const labelHeight = fontSize + padding * 1.2;
+    const x = canvas.width - labelWidth - padding;
+    const y = canvas.height - labelHeight - padding;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+    ctx.fillRect(x, y, labelWidth, labelHeight);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.fillText(WATERMARK_TEXT, x + padding, y + labelHeight / 2);
+
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => (blob ? resolve(blob) : reject(new Error("Could not encode canvas."))),
+            mimeType,
+            0.95
+        );
+    });
+}
+
+function escapeXml(text: string): string {
+    return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function buildXmpPacket(info: ProvenanceInfo): string {
+    const property = (name: string, value: string | number | undefined) =>
+        value === undefined ? '' : `\n      <${name}>${escapeXml(String(value))}</${name}>`;
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:Iptc4xmpExt="http://iptc.org/std/Iptc4xmpExt/2008-02-29/"
+        xmlns:agevoyager="urn:age-voyager:ns:1.0">${property('xmp:CreatorTool', SOFTWARE_NAME)}${property('xmp:CreateDate', info.createdAt)}${property('Iptc4xmpExt:DigitalSourceType', DIGITAL_SOURCE_TYPE)}
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(`AI-generated image of the person at age ${info.targetAge}.`)}</rdf:li></rdf:Alt></dc:description>${property('agevoyager:SourceImageSHA256', info.sourceImageHash)}${property('agevoyager:TargetAge', info.targetAge)}${property('agevoyager:Prompt', info.prompt)}${property('agevoyager:Model', info.model)}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+}
+
+/**
+ * Inserts an XMP APP1 segment after the JPEG's SOI marker and any JFIF APP0 segment.
+ */
+function embedJpegXmp(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+    const payload = new TextEncoder().encode(XMP_HEADER + buildXmpPacket(info));
+    // The segment length field is 16 bits and counts itself.
+    if (payload.length + 2 > 0xffff) {
+        throw new Error("The image metadata is too large to embed.");
+    }
+    let insertAt = 2;
+    if (bytes[2] === 0xff && bytes[3] === 0xe0) {
+        insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+    }
+    const segment = new Uint8Array(4 + payload.length);
+    segment.set([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+    segment.set(payload, 4);
+
+    const result = new Uint8Array(bytes.length + segment.length);
+    result.set(bytes.subarray(0, insertAt));
+    result.set(segment, insertAt);
+    result.set(bytes.subarray(insertAt), insertAt + segment.length);
+    return result;
+}
+
+function isLatin1(text: string): boolean {
+    return /^[\x00-\xff]*$/.test(text);
+}
+
+/**
+ * Builds a PNG text chunk: tEXt where the value is Latin-1, as the format requires, otherwise uncompressed UTF-8 iTXt.
+ */
+function buildPngTextChunk(keyword: string, value: string): Uint8Array {
+    const type = isLatin1(value) ? 'tEXt' : 'iTXt';
+    const data = type === 'tEXt'
+        ? Uint8Array.from(`${keyword}\0${value}`, char => char.charCodeAt(0))
+        // keyword, null, compression flag, compression method, empty language tag, null, empty translated keyword, null, text
+        : new Uint8Array([...new TextEncoder().encode(`${keyword}\0`), 0, 0, 0, 0, ...new TextEncoder().encode(value)]);
+
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set(new TextEncoder().encode(type), 4);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+}
+
+/**
+ * Inserts text chunks straight after the PNG's IHDR chunk.
+ */
+function embedPngText(bytes: Uint8Array, info: ProvenanceInfo): Uint8Array {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ihdrLength = view.getUint32(PNG_SIGNATURE_LENGTH);
+    const insertAt = PNG_SIGNATURE_LENGTH + 12 + ihdrLength;
+
+    const entries: [string, string | undefined][] = [
+        ['Software', SOFTWARE_NAME],
+        ['Description', `AI-generated image of the person at age ${info.targetAge}.`],
+        ['Creation Time', info.createdAt],
+        ['Source', info.model],
+        ['DigitalSourceType', DIGITAL_SOURCE_TYPE],
+        ['SourceImageSHA256', info.sourceImageHash],
+        ['TargetAge', String(info.targetAge)],
+        ['Prompt', info.prompt],
+    ];
+    const chunks = entries
+        .filter((entry): entry is [string, string] => entry[1] !== undefined)
+        .map(([keyword, value]) => buildPngTextChunk(keyword, value));
+    const chunkBytes = chunks.reduce((total, chunk) => total + chunk.length, 0);
+
+    const result = new Uint8Array(bytes.length + chunkBytes);
+    result.set(bytes.subarray(0, insertAt));
+    let offset = insertAt;
+    for (const chunk of chunks) {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    }
+    result.set(bytes.subarray(insertAt), offset);
+    return result;
+}
+
+/**
+ * Embeds provenance metadata in a JPEG or PNG. Other formats are returned unchanged.
+ * @param blob The image.
+ * @param info What to record about how the image was made.
+ * @returns A promise that resolves to the image with its metadata.
+ */
+export async function addProvenanceMetadata(blob: Blob, info: ProvenanceInfo): Promise<Blob> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    if (blob.type === 'image/jpeg' && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        return new Blob([embedJpegXmp(bytes, info)], { type: blob.type });
+    }
+    if (blob.type === 'image/png' && bytes[0] === 0x89 && bytes[1] === 0x50) {
+        return new Blob([embedPngText(bytes, info)], { type: blob.type });
+    }
+    console.warn(`Provenance metadata isn't supported for ${blob.type || 'this format'}; exporting without it.`);
+    return blob;
+}
+
+/**
+ * Prepares an image for download: adds the optional watermark and the provenance metadata,
+ * and picks the file extension from the image's actual type.
+ * @param dataUrl The image as a data URL.
+ * @param options Whether to watermark, and what metadata to embed.
+ * @returns A promise that resolves to the file contents and its extension.
+ */
+export async function prepareImageExport(dataUrl: string, { watermark, provenance }: ImageExportOptions): Promise<ImageExport> {
+    let blob = watermark && provenance ? await drawWatermark(dataUrl) : dataUrlToBlob(dataUrl);
+    if (provenance) {
+        blob = await addProvenanceMetadata(blob, provenance);
+    }
+    return { blob, extension: extensionForMimeType(blob.type) };
+}
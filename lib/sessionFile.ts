@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createZip, readZip, ZipEntry } from './zipUtils';
+import { dataUrlToBlob, extensionForMimeType, readFileAsDataUrl } from './fileUtils';
+import { createLocalizedError } from './i18n';
+import { AgeAnchor, MAX_AGE, MIN_AGE } from './ageAnchor';
+import type { BoardLayout } from './boardLayout';
+import { FRAME_STRATEGY_LABEL_KEYS, FrameStrategy } from './frameChain';
+import { PROMPT_PRESETS, PromptPresetId } from './promptBuilder';
+import { EASINGS, VideoFormat, VideoRenderOptions, VideoResult } from './videoUtils';
+import type { DetectedFace } from '../services/imageProvider';
+import type { SliderMode } from '../components/AgeSlider';
+import type { VideoTimelineSettings } from '../components/VideoTimelinePanel';
+
+/**
+ * A session project file is a ZIP archive with a `manifest.json` describing the session
+ * and the images and video stored alongside it as ordinary files.
+ */
+
+/** How a generated age was made. */
+export interface GenerationInfo {
+    prompt: string;
+    /** ISO 8601 timestamp of when the image was generated. */
+    generatedAt: string;
+}
+
+export interface SessionFrame extends Partial<GenerationInfo> {
+    age: number;
+    imageUrl: string;
+}
+
+export interface SessionSnapshot {
+    sourceImage: string;
+    referenceImages: string[];
+    faces: DetectedFace[];
+    subjectIndex: number;
+    ageAnchor: AgeAnchor;
+    promptPreset: PromptPresetId;
+    sliderMode: SliderMode;
+    frames: SessionFrame[];
+    frameStrategy: FrameStrategy;
+    videoSettings: VideoRenderOptions;
+    /** Timeline settings without the soundtrack, which stays on the user's machine. */
+    videoTimeline: Omit<VideoTimelineSettings, 'soundtrack'>;
+    boardLayout: BoardLayout;
+    video: VideoResult | null;
+}
+
+interface SessionManifest extends Omit<SessionSnapshot, 'sourceImage' | 'referenceImages' | 'frames' | 'video'> {
+    format: typeof SESSION_FORMAT;
+    version: number;
+    createdAt: string;
+    source: string;
+    references: string[];
+    frames: { age: number; year: number; prompt?: string; generatedAt?: string; file: string }[];
+    video: { file: string; format: VideoFormat; mimeType: string } | null;
+}
+
+const SESSION_FORMAT = 'age-voyager-session';
+const SESSION_VERSION = 1;
+const MANIFEST_NAME = 'manifest.json';
+
+const VIDEO_FORMATS = ['webm', 'mp4', 'gif'];
+const VIDEO_TRANSITIONS = ['cut', 'crossfade', 'dissolve', 'kenburns'];
+const FRAME_FITS = ['letterbox', 'crop'];
+const CAPTION_FONTS = ['marker', 'caveat', 'roboto'];
+const CAPTION_POSITIONS = ['bottom', 'top'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isAge = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= MIN_AGE && (value as number) <= MAX_AGE;
+const isOneOf = (options: readonly string[]) => (value: unknown) => isString(value) && options.includes(value);
+const isOptional = (check: (value: unknown) => boolean) => (value: unknown) => value === undefined || check(value);
+
+function isDetectedFace(value: unknown): boolean {
+    return isObject(value)
+        && isObject(value.box)
+        && [value.box.x, value.box.y, value.box.width, value.box.height].every(isNumber)
+        && isNumber(value.estimatedAge)
+        && isObject(value.ageRange) && isNumber(value.ageRange.min) && isNumber(value.ageRange.max)
+        && isNumber(value.confidence)
+        && isString(value.description);
+}
+
+function isAgeAnchor(value: unknown): boolean {
+    return isObject(value)
+        && isAge(value.ageInPhoto)
+        && Number.isInteger(value.photoYear)
+        && value.birthYear === (value.photoYear as number) - (value.ageInPhoto as number)
+        && isOneOf(['estimate', 'manual'])(value.source);
+}
+
+function isManifestFrame(value: unknown): boolean {
+    return isObject(value)
+        && isAge(value.age)
+        && isString(value.file)
+        && isOptional(isString)(value.prompt)
+        && isOptional(isString)(value.generatedAt);
+}
+
+function isVideoSettings(value: unknown): boolean {
+    return isObject(value)
+        && isOptional(isOneOf(VIDEO_TRANSITIONS))(value.transition)
+        && isOptional(isNumber)(value.transitionDurationMs)
+        && isOptional(isOneOf(Object.keys(EASINGS)))(value.easing)
+        && isOptional(isOneOf(FRAME_FITS))(value.fit)
+        && isOptional(isNumber)(value.fps)
+        && isOptional(isNumber)(value.maxDimension)
+        && isOptional(isString)(value.background)
+        && isOptional(isOneOf([...VIDEO_FORMATS, 'auto']))(value.format);
+}
+
+function isVideoTimeline(value: unknown): boolean {
+    return isObject(value)
+        && typeof value.captions === 'boolean'
+        && typeof value.titleCards === 'boolean'
+        && isOneOf(CAPTION_FONTS)(value.captionFont)
+        && isOneOf(CAPTION_POSITIONS)(value.captionPosition);
+}
+
+function isBoardLayout(value: unknown): boolean {
+    return isObject(value) && Object.values(value).every(card =>
+        isObject(card)
+        && [card.x, card.y, card.rotation].every(isNumber)
+        && typeof card.favorite === 'boolean'
+    );
+}
+
+function isManifestVideo(value: unknown): boolean {
+    return value === null || (isObject(value)
+        && isString(value.file)
+        && isOneOf(VIDEO_FORMATS)(value.format)
+        && isString(value.mimeType));
+}
+
+/**
+ * Parses and checks a session manifest, so a damaged or hand-edited file is turned away here
+ * rather than failing somewhere in the middle of the restored session.
+ * @param bytes The contents of manifest.json.
+ * @returns The manifest, with every field the session needs present and of the right type.
+ * @throws A LocalizedError naming the first field that is missing or invalid.
+ */
+function parseManifest(bytes: Uint8Array): SessionManifest {
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(new TextDecoder().decode(bytes));
+    } catch (error) {
+        throw createLocalizedError('errors.session.invalidField', { field: MANIFEST_NAME }, error);
+    }
+    if (!isObject(manifest) || manifest.format !== SESSION_FORMAT) {
+        throw createLocalizedError('errors.session.notSession');
+    }
+    if (isNumber(manifest.version) && manifest.version > SESSION_VERSION) {
+        throw createLocalizedError('errors.session.newerVersion');
+    }
+
+    const faceCount = Array.isArray(manifest.faces) ? manifest.faces.length : 0;
+    const checks: Record<keyof SessionManifest, (value: unknown) => boolean> = {
+        format: () => true,
+        version: value => Number.isInteger(value) && (value as number) >= 1,
+        createdAt: isString,
+        source: isString,
+        references: value => Array.isArray(value) && value.every(isString),
+        faces: value => Array.isArray(value) && value.length > 0 && value.every(isDetectedFace),
+        subjectIndex: value => Number.isInteger(value) && (value as number) >= 0 && (value as number) < faceCount,
+        ageAnchor: isAgeAnchor,
+        promptPreset: isOneOf(Object.keys(PROMPT_PRESETS)),
+        sliderMode: isOneOf(['age', 'year']),
+        frames: value => Array.isArray(value) && value.every(isManifestFrame),
+        frameStrategy: isOneOf(Object.keys(FRAME_STRATEGY_LABEL_KEYS)),
+        videoSettings: isVideoSettings,
+        videoTimeline: isVideoTimeline,
+        boardLayout: isBoardLayout,
+        video: isManifestVideo,
+    };
+    for (const [field, isValid] of Object.entries(checks)) {
+        if (!isValid(manifest[field])) {
+            throw createLocalizedError('errors.session.invalidField', { field });
+        }
+    }
+    return manifest as unknown as SessionManifest;
+}
+
+function imageFileName(base: string, dataUrl: string): string {
+    const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+    return `${base}.${extensionForMimeType(mimeType)}`;
+}
+
+/**
+ * Packs a session into a project file.
+ * @param snapshot Everything needed to restore the session.
+ * @returns A promise that resolves to the project file as a ZIP Blob.
+ */
+export async function exportSessionFile(snapshot: SessionSnapshot): Promise<Blob> {
+    const { sourceImage, referenceImages, frames, video, ...settings } = snapshot;
+    const files: { name: string; data: Blob }[] = [];
+    const addImage = (base: string, dataUrl: string) => {
+        const name = imageFileName(base, dataUrl);
+        files.push({ name, data: dataUrlToBlob(dataUrl) });
+        return name;
+    };
+
+    const source = addImage('source', sourceImage);
+    const references = referenceImages.map((image, index) => addImage(`references/reference-${index + 1}`, image));
+    const manifestFrames = [...frames].sort((a, b) => a.age - b.age).map(frame => ({
+        age: frame.age,
+        year: settings.ageAnchor.birthYear + frame.age,
+        prompt: frame.prompt,
+        generatedAt: frame.generatedAt,
+        // The original photo is already stored as the source.
+        file: frame.imageUrl === sourceImage ? source : addImage(`frames/age-${String(frame.age).padStart(3, '0')}`, frame.imageUrl),
+    }));
+
+    let manifestVideo: SessionManifest['video'] = null;
+    if (video) {
+        const name = `video.${video.extension}`;
+        files.push({ name, data: await (await fetch(video.url)).blob() });
+        manifestVideo = { file: name, format: video.format, mimeType: video.mimeType };
+    }
+
+    const manifest: SessionManifest = {
+        format: SESSION_FORMAT,
+        version: SESSION_VERSION,
+        createdAt: new Date().toISOString(),
+        ...settings,
+        source,
+        references,
+        frames: manifestFrames,
+        video: manifestVideo,
+    };
+
+    return createZip([{ name: MANIFEST_NAME, data: JSON.stringify(manifest, null, 2) }, ...files]);
+}
+
+/**
+ * Reads a project file back into a session snapshot.
+ * @param file The project file chosen by the user.
+ * @returns A promise that resolves to the restored session.
+ * @throws A LocalizedError if the file isn't a session project, its manifest is damaged, or it is missing files the manifest refers to.
+ */
+export async function importSessionFile(file: Blob): Promise<SessionSnapshot> {
+    let entries: ZipEntry[];
+    try {
+        entries = await readZip(file);
+    } catch (error) {
+        throw createLocalizedError('errors.session.notSession', undefined, error);
+    }
+    const byName = new Map(entries.map(entry => [entry.name, entry.data]));
+
+    const manifestBytes = byName.get(MANIFEST_NAME);
+    if (!manifestBytes) {
+        throw createLocalizedError('errors.session.noManifest');
+    }
+    const manifest = parseManifest(manifestBytes);
+
+    const readBlob = (name: string, mimeType: string) => {
+        const data = byName.get(name);
+        if (!data) {
+            throw createLocalizedError('errors.session.missingFile', { name });
+        }
+        return new Blob([data], { type: mimeType });
+    };
+    const mimeTypeFor = (name: string) => {
+        const extension = name.split('.').pop()?.toLowerCase();
+        return extension === 'jpg' ? 'image/jpeg' : `image/${extension}`;
+    };
+    const readImage = (name: string) => readFileAsDataUrl(readBlob(name, mimeTypeFor(name)));
+
+    const { format: _format, version: _version, createdAt: _createdAt, source, references, frames, video, ...settings } = manifest;
+    const sourceImage = await readImage(source);
+
+    return {
+        ...settings,
+        sourceImage,
+        referenceImages: await Promise.all(references.map(readImage)),
+        frames: await Promise.all(frames.map(async frame => ({
+            age: frame.age,
+            prompt: frame.prompt,
+            generatedAt: frame.generatedAt,
+            imageUrl: frame.file === source ? sourceImage : await readImage(frame.file),
+        }))),
+        video: video
+            ? {
+                url: URL.createObjectURL(readBlob(video.file, video.mimeType)),
+                format: video.format,
+                mimeType: video.mimeType,
+                extension: video.file.split('.').pop() ?? video.format,
+            }
+            : null,
+    };
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DetectedFace } from '../services/imageProvider';
+
+/**
+ * Describes roughly where a face sits in the frame, e.g. "on the left, near the top".
+ */
+function describePosition(face: DetectedFace): string {
+    const centerX = face.box.x + face.box.width / 2;
+    const centerY = face.box.y + face.box.height / 2;
+    const horizontal = centerX < 0.36 ? 'on the left' : centerX > 0.64 ? 'on the right' : 'in the middle';
+    const vertical = centerY < 0.33 ? ', near the top' : centerY > 0.67 ? ', near the bottom' : '';
+    return `${horizontal}${vertical}`;
+}
+
+/**
+ * Builds the prompt sentence that points the model at the chosen person in a group photo.
+ * @param faces Every face detected in the photo.
+ * @param subjectIndex The index of the chosen face.
+ * @returns An instruction to append to the prompt, or an empty string when the photo has a single person.
+ */
+export function describeSubject(faces: DetectedFace[], subjectIndex: number): string {
+    const subject = faces[subjectIndex];
+    if (!subject || faces.length < 2) {
+        return '';
+    }
+    const { x, y, width, height } = subject.box;
+    const percent = (value: number) => Math.round(value * 100);
+    const description = subject.description ? `${subject.description}, ` : '';
+    return ` There are ${faces.length} people in the photo. Apply the change only to ${description}the person ${describePosition(subject)} (their face spans ${percent(x)}–${percent(x + width)}% of the width and ${percent(y)}–${percent(y + height)}% of the height). Leave everyone else exactly as they are.`;
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface CaptionStyle {
+    /** A CSS font family, e.g. "'Permanent Marker', cursive". */
+    fontFamily: string;
+    /** Caption text height as a fraction of the video height. */
+    sizeRatio: number;
+    color: string;
+    /** Drop shadow colour, which keeps captions readable over light images. */
+    shadowColor: string;
+    position: 'top' | 'bottom';
+}
+
+export interface TitleCard {
+    title: string;
+    subtitle?: string;
+    durationMs: number;
+}
+
+export interface VideoTimeline {
+    /** One caption per image, in the same order. Missing or empty entries are left blank. */
+    captions?: string[];
+    captionStyle?: Partial<CaptionStyle>;
+    /** Shown before the first image. */
+    openingCard?: TitleCard;
+    /** Shown after the last image. */
+    closingCard?: TitleCard;
+    /** A local audio file mixed into the video. It loops if shorter than the video and fades out at the end. */
+    audio?: Blob;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+    fontFamily: "'Permanent Marker', cursive",
+    sizeRatio: 0.07,
+    color: '#ffffff',
+    shadowColor: 'rgba(0, 0, 0, 0.8)',
+    position: 'bottom',
+};
+
+// How long title cards take to fade in from, and out to, the background.
+const TITLE_FADE_MS = 400;
+
+/**
+ * Waits for the caption font so the first frames aren't drawn with a fallback face.
+ */
+export async function loadCaptionFont(style: CaptionStyle): Promise<void> {
+    try {
+        await document.fonts.load(`48px ${style.fontFamily}`);
+    } catch {
+        // A font that fails to load falls back to the next family in the list.
+    }
+}
+
+/**
+ * Draws a caption centred near the top or bottom edge.
+ * @param alpha Opacity from 0 to 1, used to fade captions across transitions.
+ */
+export function drawCaption(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    width: number,
+    height: number,
+    style: CaptionStyle,
+    alpha = 1
+) {
+    if (!text || alpha <= 0) return;
+    const fontSize = Math.max(12, Math.round(height * style.sizeRatio));
+    const margin = fontSize * 0.6;
+
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.font = `${fontSize}px ${style.fontFamily}`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = style.position === 'top' ? 'top' : 'bottom';
+    ctx.fillStyle = style.color;
+    ctx.shadowColor = style.shadowColor;
+    ctx.shadowBlur = fontSize * 0.25;
+    ctx.shadowOffsetY = fontSize * 0.05;
+    ctx.fillText(text, width / 2, style.position === 'top' ? margin : height - margin, width - margin * 2);
+    ctx.restore();
+}
+
+/**
+ * Draws a title card over the current background, fading in and out at its edges.
+ * @param localMs Time since the card started.
+ */
+export function drawTitleCard(
+    ctx: CanvasRenderingContext2D,
+    card: TitleCard,
+    localMs: number,
+    width: number,
+    height: number,
+    style: CaptionStyle
+) {
+    const fade = Math.min(TITLE_FADE_MS, card.durationMs / 2);
+    const alpha = fade > 0
+        ? Math.max(0, Math.min(1, localMs / fade, (card.durationMs - localMs) / fade))
+        : 1;
+    const titleSize = Math.round(height * style.sizeRatio * 1.8);
+    const subtitleSize = Math.round(titleSize * 0.5);
+    const maxWidth = width * 0.9;
+
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = style.color;
+    ctx.font = `${titleSize}px ${style.fontFamily}`;
+    ctx.fillText(card.title, width / 2, card.subtitle ? height / 2 - subtitleSize * 0.8 : height / 2, maxWidth);
+    if (card.subtitle) {
+        ctx.globalAlpha = alpha * 0.75;
+        ctx.font = `${subtitleSize}px ${style.fontFamily}`;
+        ctx.fillText(card.subtitle, width / 2, height / 2 + titleSize * 0.6, maxWidth);
+    }
+    ctx.restore();
+}
@@ -2,51 +2,491 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { createWebmMuxer } from './webmMuxer';
+import { createMp4Muxer } from './mp4Muxer';
+import { createGifEncoder } from './gifEncoder';
+import { DEFAULT_CAPTION_STYLE, drawCaption, drawTitleCard, loadCaptionFont, CaptionStyle, VideoTimeline } from './videoOverlays';
+import { createLocalizedError } from './i18n';
+
+export type VideoFormat = 'webm' | 'mp4' | 'gif';
+export type VideoTransition = 'cut' | 'crossfade' | 'dissolve' | 'kenburns';
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+export type FrameFit = 'letterbox' | 'crop';
+
+export interface VideoRenderOptions {
+    /** How one image gives way to the next. Defaults to a crossfade. */
+    transition?: VideoTransition;
+    /** How long each transition lasts, taken from the end of the outgoing image's slot. */
+    transitionDurationMs?: number;
+    easing?: EasingName;
+    /** How images whose aspect ratio differs from the video are fitted into the frame. */
+    fit?: FrameFit;
+    fps?: number;
+    /** The longest side of the output video, in pixels. */
+    maxDimension?: number;
+    /** Fill colour for letterbox bars. */
+    background?: string;
+    /** Output container. 'auto' picks the most shareable format this browser can produce. */
+    format?: VideoFormat | 'auto';
+}
+
+export interface VideoResult {
+    /** A local blob URL for the video. */
+    url: string;
+    /** The format actually produced, which may differ from the requested one after fallback. */
+    format: VideoFormat;
+    mimeType: string;
+    extension: string;
+}
+
+/** The step the render has reached, reported as data so the UI can describe it in the active language. */
+export interface VideoProgress {
+    stage: 'initializing' | 'rendering' | 'recording' | 'encoding-gif' | 'finalizing' | 'finalizing-gif';
+    /** How far through the stage, from 0 to 100, for the stages that go frame by frame. */
+    percent?: number;
+}
+
+type ResolvedRenderOptions = Required<VideoRenderOptions>;
+
+type EncodingPlan =
+    | { kind: 'webcodecs'; format: 'webm' | 'mp4'; config: VideoEncoderConfig; codecId: string }
+    | { kind: 'mediarecorder'; format: 'webm' | 'mp4'; mimeType: string }
+    | { kind: 'gif'; format: 'gif' };
+
+interface RenderContext {
+    ctx: CanvasRenderingContext2D;
+    images: HTMLImageElement[];
+    width: number;
+    height: number;
+    frameDurationMs: number;
+    options: ResolvedRenderOptions;
+    dissolveThresholds: Float32Array;
+    timeline: VideoTimeline;
+    captionStyle: CaptionStyle;
+}
+
+const DEFAULT_OPTIONS: ResolvedRenderOptions = {
+    transition: 'crossfade',
+    transitionDurationMs: 250,
+    easing: 'easeInOut',
+    fit: 'letterbox',
+    fps: 30,
+    maxDimension: 1024,
+    background: '#000000',
+    format: 'auto',
+};
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+    linear: t => t,
+    easeIn: t => t * t * t,
+    easeOut: t => 1 - Math.pow(1 - t, 3),
+    easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+};
+
+// Codecs to try with WebCodecs, best first. codecId is the Matroska codec ID for WebM.
+const WEBCODECS_CANDIDATES: Record<'webm' | 'mp4', { codec: string; codecId: string }[]> = {
+    webm: [
+        { codec: 'vp09.00.10.08', codecId: 'V_VP9' },
+        { codec: 'vp8', codecId: 'V_VP8' },
+    ],
+    mp4: [
+        { codec: 'avc1.640028', codecId: '' }, // High, level 4.0
+        { codec: 'avc1.4d0028', codecId: '' }, // Main, level 4.0
+        { codec: 'avc1.420028', codecId: '' }, // Baseline, level 4.0
+    ],
+};
+
+const MEDIA_RECORDER_TYPES: Record<'webm' | 'mp4', string[]> = {
+    webm: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'],
+    mp4: ['video/mp4;codecs=avc1.42E01E', 'video/mp4;codecs=avc1', 'video/mp4'],
+};
+
+// Shareability order used by 'auto', and as the fallback chain when a requested format is unavailable.
+const FORMAT_PREFERENCE: VideoFormat[] = ['mp4', 'webm', 'gif'];
+
+const MIME_TYPES: Record<VideoFormat, string> = {
+    webm: 'video/webm',
+    mp4: 'video/mp4',
+    gif: 'image/gif',
+};
+
+// GIFs get big quickly, so they are rendered smaller and at a lower frame rate.
+const GIF_MAX_DIMENSION = 480;
+const GIF_FPS = 10;
+
+const DISSOLVE_BLOCK_SIZE = 16;
+const KEN_BURNS_ZOOM = 0.12;
+const KEN_BURNS_PAN = 0.04;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const AUDIO_FADE_OUT_SECONDS = 1.5;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
+        img.src = src;
+    });
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
 
 /**
- * Creates a video from a sequence of image data URLs using the Canvas and MediaRecorder APIs.
- * @param imageUrls An array of image data URLs.
- * @param frameDurationMs The duration each frame should be displayed in milliseconds.
- * @param onProgress A callback function to report progress messages.
- * @returns A promise that resolves with a local URL (blob URL) for the generated video.
+ * Scales the first image down to fit maxDimension, rounding to even sizes as most encoders require.
  */
-export async function createVideoFromImages(
-    imageUrls: string[],
-    frameDurationMs: number,
-    onProgress: (message: string) => void
-): Promise<string> {
-    if (!imageUrls || imageUrls.length === 0) {
-        throw new Error("Image URLs array cannot be empty.");
+function computeOutputSize(image: HTMLImageElement, maxDimension: number): { width: number; height: number } {
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const even = (value: number) => Math.max(2, Math.round(value * scale / 2) * 2);
+    return { width: even(image.naturalWidth), height: even(image.naturalHeight) };
+}
+
+/**
+ * A fixed pseudo-random threshold per block, so the dissolve pattern is identical on every render.
+ */
+function createDissolveThresholds(width: number, height: number): Float32Array {
+    const columns = Math.ceil(width / DISSOLVE_BLOCK_SIZE);
+    const rows = Math.ceil(height / DISSOLVE_BLOCK_SIZE);
+    const thresholds = new Float32Array(columns * rows);
+    let seed = 0x9e3779b9;
+    for (let i = 0; i < thresholds.length; i++) {
+        // xorshift32
+        seed ^= seed << 13;
+        seed ^= seed >>> 17;
+        seed ^= seed << 5;
+        thresholds[i] = (seed >>> 0) / 0xffffffff;
     }
+    return thresholds;
+}
 
-    onProgress("Initializing video encoder...");
+/**
+ * Draws an image into the frame, letterboxed or cropped, optionally zoomed and panned for Ken Burns.
+ */
+function drawFitted(
+    render: RenderContext,
+    image: HTMLImageElement,
+    zoom = 1,
+    panX = 0,
+    panY = 0,
+    ctx: CanvasRenderingContext2D = render.ctx
+) {
+    const { width, height, options } = render;
+    const fitScale = options.fit === 'crop'
+        ? Math.max(width / image.naturalWidth, height / image.naturalHeight)
+        : Math.min(width / image.naturalWidth, height / image.naturalHeight);
+    const scale = fitScale * zoom;
+    const drawWidth = image.naturalWidth * scale;
+    const drawHeight = image.naturalHeight * scale;
+    const x = (width - drawWidth) / 2 + panX * width;
+    const y = (height - drawHeight) / 2 + panY * height;
+    ctx.drawImage(image, x, y, drawWidth, drawHeight);
+}
 
-    const loadImage = (src: string): Promise<HTMLImageElement> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            img.onload = () => resolve(img);
-            img.onerror = (err) => reject(new Error(`Failed to load image: ${src.substring(0, 50)}...`));
-            img.src = src;
-        });
-    };
+/**
+ * Draws image `index` as it appears at `timeMs`, including its Ken Burns motion if enabled.
+ */
+function drawImageAt(render: RenderContext, index: number, timeMs: number, ctx?: CanvasRenderingContext2D) {
+    const { images, frameDurationMs, options } = render;
+    if (options.transition !== 'kenburns') {
+        drawFitted(render, images[index], 1, 0, 0, ctx);
+        return;
+    }
+    // The move spans the image's whole time on screen, from the start of its incoming transition.
+    const visibleFrom = index * frameDurationMs - (index > 0 ? options.transitionDurationMs : 0);
+    const visibleFor = frameDurationMs + (index > 0 ? options.transitionDurationMs : 0);
+    const progress = EASINGS[options.easing](clamp01((timeMs - visibleFrom) / visibleFor));
+    const direction = index % 2 === 0 ? 1 : -1;
+    drawFitted(render, images[index], 1 + KEN_BURNS_ZOOM * progress, direction * KEN_BURNS_PAN * progress, -KEN_BURNS_PAN * progress / 2, ctx);
+}
 
-    const firstImage = await loadImage(imageUrls[0]);
-    const { width, height } = firstImage;
+function drawDissolve(render: RenderContext, index: number, timeMs: number, progress: number) {
+    const { ctx, width, height, dissolveThresholds } = render;
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const layerCtx = layer.getContext('2d')!;
+    drawImageAt(render, index, timeMs, layerCtx);
 
-    const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-        throw new Error("Could not create canvas context.");
+    // Keep only the blocks whose threshold has been passed.
+    layerCtx.globalCompositeOperation = 'destination-in';
+    layerCtx.fillStyle = '#000';
+    const columns = Math.ceil(width / DISSOLVE_BLOCK_SIZE);
+    layerCtx.beginPath();
+    dissolveThresholds.forEach((threshold, block) => {
+        if (threshold < progress) {
+            layerCtx.rect((block % columns) * DISSOLVE_BLOCK_SIZE, Math.floor(block / columns) * DISSOLVE_BLOCK_SIZE, DISSOLVE_BLOCK_SIZE, DISSOLVE_BLOCK_SIZE);
+        }
+    });
+    layerCtx.fill();
+
+    ctx.drawImage(layer, 0, 0);
+}
+
+/**
+ * Renders the frame shown at `timeMs`. Every value is derived from the timestamp alone,
+ * so the same inputs always produce the same video regardless of how fast the tab runs.
+ */
+function renderFrame(render: RenderContext, timeMs: number) {
+    const { ctx, images, width, height, frameDurationMs, options } = render;
+    const index = Math.min(images.length - 1, Math.floor(timeMs / frameDurationMs));
+    const localMs = timeMs - index * frameDurationMs;
+
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = options.background;
+    ctx.fillRect(0, 0, width, height);
+    drawImageAt(render, index, timeMs);
+
+    const transitionStart = frameDurationMs - options.transitionDurationMs;
+    if (options.transition === 'cut' || index === images.length - 1 || localMs < transitionStart) {
+        return;
+    }
+
+    const progress = EASINGS[options.easing](clamp01((localMs - transitionStart) / options.transitionDurationMs));
+    if (options.transition === 'dissolve') {
+        drawDissolve(render, index + 1, timeMs, progress);
+    } else {
+        // Crossfade, and the blend between Ken Burns shots.
+        ctx.globalAlpha = progress;
+        if (options.fit === 'letterbox') {
+            // Fade the bars too, in case the next image has a different aspect ratio.
+            ctx.fillStyle = options.background;
+            ctx.fillRect(0, 0, width, height);
+        }
+        drawImageAt(render, index + 1, timeMs);
+        ctx.globalAlpha = 1;
+    }
+}
+
+/**
+ * Draws the captions for the images on screen at `imagesMs`, crossfading them with the images.
+ */
+function drawCaptionsAt(render: RenderContext, imagesMs: number) {
+    const { ctx, images, width, height, frameDurationMs, options, timeline, captionStyle } = render;
+    const captions = timeline.captions ?? [];
+    const index = Math.min(images.length - 1, Math.floor(imagesMs / frameDurationMs));
+    const localMs = imagesMs - index * frameDurationMs;
+    const transitionStart = frameDurationMs - options.transitionDurationMs;
+
+    if (options.transition === 'cut' || index === images.length - 1 || localMs < transitionStart) {
+        drawCaption(ctx, captions[index], width, height, captionStyle);
+        return;
+    }
+    const progress = EASINGS[options.easing](clamp01((localMs - transitionStart) / options.transitionDurationMs));
+    drawCaption(ctx, captions[index], width, height, captionStyle, 1 - progress);
+    drawCaption(ctx, captions[index + 1], width, height, captionStyle, progress);
+}
+
+/**
+ * Total length of the video: opening card, every image slot, then the closing card.
+ */
+function timelineDurationMs(render: RenderContext): number {
+    const { images, frameDurationMs, timeline } = render;
+    return (timeline.openingCard?.durationMs ?? 0) + images.length * frameDurationMs + (timeline.closingCard?.durationMs ?? 0);
+}
+
+/**
+ * Renders the frame at `timeMs` of the whole timeline, including title cards and captions.
+ */
+function renderTimelineFrame(render: RenderContext, timeMs: number) {
+    const { ctx, images, width, height, frameDurationMs, options, timeline, captionStyle } = render;
+    const openingMs = timeline.openingCard?.durationMs ?? 0;
+    const imagesMs = timeMs - openingMs;
+
+    if (timeline.openingCard && imagesMs < 0) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, width, height);
+        drawTitleCard(ctx, timeline.openingCard, timeMs, width, height, captionStyle);
+        return;
+    }
+    const closingStart = images.length * frameDurationMs;
+    if (timeline.closingCard && imagesMs >= closingStart) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, width, height);
+        drawTitleCard(ctx, timeline.closingCard, imagesMs - closingStart, width, height, captionStyle);
+        return;
+    }
+
+    renderFrame(render, imagesMs);
+    drawCaptionsAt(render, imagesMs);
+}
+
+/**
+ * Picks the first WebCodecs configuration the browser can encode for a container, or null if there is none.
+ */
+async function findWebCodecsPlan(format: 'webm' | 'mp4', width: number, height: number, fps: number): Promise<EncodingPlan | null> {
+    if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
+        return null;
+    }
+    for (const candidate of WEBCODECS_CANDIDATES[format]) {
+        const config: VideoEncoderConfig = { codec: candidate.codec, width, height, framerate: fps, bitrate: 4_000_000 };
+        if (format === 'mp4') {
+            // Ask for avcC-style output, which is what the MP4 muxer stores.
+            config.avc = { format: 'avc' };
+        }
+        try {
+            const support = await VideoEncoder.isConfigSupported(config);
+            if (support.supported) {
+                return { kind: 'webcodecs', format, config, codecId: candidate.codecId };
+            }
+        } catch {
+            // Unsupported codec strings may throw instead of reporting supported: false.
+        }
     }
+    return null;
+}
 
-    const stream = canvas.captureStream(30);
-    const mimeType = 'video/webm; codecs=vp9';
-    if (!MediaRecorder.isTypeSupported(mimeType)) {
-        throw new Error(`${mimeType} is not supported on this browser.`);
+function findMediaRecorderPlan(format: 'webm' | 'mp4'): EncodingPlan | null {
+    if (typeof MediaRecorder === 'undefined') {
+        return null;
     }
-    const recorder = new MediaRecorder(stream, { mimeType });
+    const mimeType = MEDIA_RECORDER_TYPES[format].find(type => MediaRecorder.isTypeSupported(type));
+    return mimeType ? { kind: 'mediarecorder', format, mimeType } : null;
+}
+
+/**
+ * Works out how to produce the requested format, trying WebCodecs with our own muxers first,
+ * then the browser's MediaRecorder, then the other formats in order of shareability.
+ * GIF is always possible because it is encoded entirely in JavaScript.
+ * With a soundtrack, formats MediaRecorder can record with audio are preferred over silent ones.
+ */
+async function negotiateEncoding(requested: VideoFormat | 'auto', width: number, height: number, fps: number, withAudio: boolean): Promise<EncodingPlan> {
+    const order = requested === 'auto'
+        ? FORMAT_PREFERENCE
+        : [requested, ...FORMAT_PREFERENCE.filter(format => format !== requested)];
+
+    if (withAudio && requested !== 'gif') {
+        // Our muxers are video-only, so only MediaRecorder can carry the soundtrack.
+        for (const format of order) {
+            const plan = format === 'gif' ? null : findMediaRecorderPlan(format);
+            if (plan) {
+                return plan;
+            }
+        }
+        console.warn("This browser cannot record video with audio. The soundtrack will be left out.");
+    }
+
+    for (const format of order) {
+        if (format === 'gif') {
+            return { kind: 'gif', format };
+        }
+        const plan = (await findWebCodecsPlan(format, width, height, fps)) ?? findMediaRecorderPlan(format);
+        if (plan) {
+            return plan;
+        }
+    }
+    return { kind: 'gif', format: 'gif' };
+}
+
+/**
+ * Encodes every frame with WebCodecs using explicit timestamps, so timing never depends on the wall clock.
+ */
+async function encodeWithWebCodecs(
+    render: RenderContext,
+    canvas: HTMLCanvasElement,
+    totalFrames: number,
+    plan: Extract<EncodingPlan, { kind: 'webcodecs' }>,
+    onProgress: (progress: VideoProgress) => void
+): Promise<Blob> {
+    const { fps } = render.options;
+    const muxer = plan.format === 'mp4'
+        ? createMp4Muxer({ width: render.width, height: render.height })
+        : createWebmMuxer({ codecId: plan.codecId, width: render.width, height: render.height });
+    let encoderError: Error | null = null;
+
+    const encoder = new VideoEncoder({
+        output: (chunk, metadata) => muxer.addVideoChunk(chunk, metadata),
+        error: error => { encoderError = error; },
+    });
+    // Hardware encoders are a limited resource, so release this one however encoding ends.
+    try {
+        encoder.configure(plan.config);
+
+        const frameDurationUs = Math.round(1_000_000 / fps);
+        for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+            if (encoderError) throw encoderError;
+            if (frameIndex % fps === 0) {
+                onProgress({ stage: 'rendering', percent: Math.round((frameIndex / totalFrames) * 100) });
+            }
+
+            renderTimelineFrame(render, (frameIndex * 1000) / fps);
+            const frame = new VideoFrame(canvas, { timestamp: frameIndex * frameDurationUs, duration: frameDurationUs });
+            try {
+                encoder.encode(frame, { keyFrame: frameIndex % (fps * KEYFRAME_INTERVAL_SECONDS) === 0 });
+            } finally {
+                frame.close();
+            }
+
+            // Let the encoder catch up instead of queueing the whole video in memory.
+            while (encoder.encodeQueueSize > 8) {
+                await new Promise(resolve => setTimeout(resolve, 0));
+            }
+        }
+
+        onProgress({ stage: 'finalizing' });
+        await encoder.flush();
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+    if (encoderError) throw encoderError;
+    return muxer.finalize();
+}
+
+/**
+ * Decodes the soundtrack and routes it into a stream track, looping it and fading out at `durationSeconds`.
+ * Playback starts when the returned start() is called, so it lines up with the first recorded frame.
+ */
+async function createSoundtrack(audio: Blob, durationSeconds: number) {
+    const audioContext = new AudioContext();
+    let buffer: AudioBuffer;
+    try {
+        buffer = await audioContext.decodeAudioData(await audio.arrayBuffer());
+    } catch (error) {
+        await audioContext.close();
+        throw createLocalizedError('errors.soundtrackUnreadable', undefined, error);
+    }
+
+    const source = audioContext.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    const gain = audioContext.createGain();
+    const destination = audioContext.createMediaStreamDestination();
+    source.connect(gain).connect(destination);
+
+    return {
+        track: destination.stream.getAudioTracks()[0],
+        start: async () => {
+            await audioContext.resume();
+            const now = audioContext.currentTime;
+            const fadeStart = now + Math.max(0, durationSeconds - AUDIO_FADE_OUT_SECONDS);
+            gain.gain.setValueAtTime(1, fadeStart);
+            gain.gain.linearRampToValueAtTime(0, now + durationSeconds);
+            source.start(now);
+        },
+        close: () => audioContext.close(),
+    };
+}
+
+/**
+ * Fallback for browsers without a usable WebCodecs encoder, and the path for videos with a soundtrack:
+ * plays the frames in real time into a MediaRecorder.
+ * Frames are pushed explicitly with requestFrame(), but pacing still follows the wall clock.
+ */
+async function recordWithMediaRecorder(
+    render: RenderContext,
+    canvas: HTMLCanvasElement,
+    totalFrames: number,
+    plan: Extract<EncodingPlan, { kind: 'mediarecorder' }>,
+    onProgress: (progress: VideoProgress) => void
+): Promise<Blob> {
+    const { fps } = render.options;
+    const stream = canvas.captureStream(0);
+    const [track] = stream.getVideoTracks() as CanvasCaptureMediaStreamTrack[];
+    const soundtrack = render.timeline.audio
+        ? await createSoundtrack(render.timeline.audio, totalFrames / fps)
+        : null;
+    if (soundtrack) {
+        stream.addTrack(soundtrack.track);
+    }
+    const recorder = new MediaRecorder(stream, { mimeType: plan.mimeType });
 
     const chunks: BlobPart[] = [];
     recorder.ondataavailable = (e) => {
@@ -55,27 +495,136 @@ export async function createVideoFromImages(
         }
     };
 
-    const recorderStopped = new Promise<string>((resolve, reject) => {
-        recorder.onstop = () => {
-            const blob = new Blob(chunks, { type: 'video/webm' });
-            resolve(URL.createObjectURL(blob));
-        };
-        recorder.onerror = (e) => {
-            reject(new Error(`MediaRecorder error: ${e}`));
-        };
+    const recorderStopped = new Promise<Blob>((resolve, reject) => {
+        recorder.onstop = () => resolve(new Blob(chunks, { type: MIME_TYPES[plan.format] }));
+        recorder.onerror = (e) => reject(new Error(`MediaRecorder error: ${e}`));
     });
 
     recorder.start();
-
-    for (let i = 0; i < imageUrls.length; i++) {
-        onProgress(`Encoding frame ${i + 1} of ${imageUrls.length}...`);
-        const image = i === 0 ? firstImage : await loadImage(imageUrls[i]);
-        ctx.drawImage(image, 0, 0, width, height);
-        await new Promise(resolve => setTimeout(resolve, frameDurationMs));
+    await soundtrack?.start();
+    const startTime = performance.now();
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+        if (frameIndex % fps === 0) {
+            onProgress({ stage: 'recording', percent: Math.round((frameIndex / totalFrames) * 100) });
+        }
+        renderTimelineFrame(render, (frameIndex * 1000) / fps);
+        track.requestFrame();
+        // Schedule against the start time so small delays don't accumulate into drift.
+        const nextFrameAt = startTime + ((frameIndex + 1) * 1000) / fps;
+        await new Promise(resolve => setTimeout(resolve, Math.max(0, nextFrameAt - performance.now())));
     }
-    
-    onProgress("Finalizing video...");
+
+    onProgress({ stage: 'finalizing' });
     recorder.stop();
+    try {
+        return await recorderStopped;
+    } finally {
+        await soundtrack?.close();
+    }
+}
+
+/**
+ * Encodes the frames as an animated GIF in JavaScript, which works in every browser.
+ */
+async function encodeGif(
+    render: RenderContext,
+    totalFrames: number,
+    onProgress: (progress: VideoProgress) => void
+): Promise<Blob> {
+    const { ctx, width, height, options } = render;
+    const encoder = createGifEncoder(width, height);
+
+    for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+        onProgress({ stage: 'encoding-gif', percent: Math.round((frameIndex / totalFrames) * 100) });
+        renderTimelineFrame(render, (frameIndex * 1000) / options.fps);
+        encoder.addFrame(ctx.getImageData(0, 0, width, height), 1000 / options.fps);
+        // Yield so progress updates can paint between frames.
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    onProgress({ stage: 'finalizing-gif' });
+    return encoder.finish();
+}
+
+/**
+ * Creates a video from a sequence of image data URLs, with transitions between images.
+ * The output format is negotiated with the browser: WebCodecs with a JavaScript muxer where available,
+ * then MediaRecorder, with animated GIF as the format that always works.
+ * @param imageUrls An array of image data URLs.
+ * @param frameDurationMs The duration each image should be displayed in milliseconds, including its outgoing transition.
+ * @param onProgress Called whenever the render reaches a new stage or makes progress within one.
+ * @param renderOptions Transition, easing, fit, output size and format settings.
+ * @param timeline Captions, title cards and an optional soundtrack. GIFs are always silent.
+ * @returns A promise that resolves with a local URL (blob URL) for the video and the format it was encoded in.
+ */
+export async function createVideoFromImages(
+    imageUrls: string[],
+    frameDurationMs: number,
+    onProgress: (progress: VideoProgress) => void,
+    renderOptions: VideoRenderOptions = {},
+    timeline: VideoTimeline = {}
+): Promise<VideoResult> {
+    if (!imageUrls || imageUrls.length === 0) {
+        throw new Error("Image URLs array cannot be empty.");
+    }
+
+    onProgress({ stage: 'initializing' });
 
-    return recorderStopped;
-}
\ No newline at end of file
+    const options: ResolvedRenderOptions = { ...DEFAULT_OPTIONS, ...renderOptions };
+    options.transitionDurationMs = options.transition === 'cut' ? 0 : Math.min(options.transitionDurationMs, frameDurationMs);
+
+    const captionStyle: CaptionStyle = { ...DEFAULT_CAPTION_STYLE, ...timeline.captionStyle };
+    const [images] = await Promise.all([Promise.all(imageUrls.map(loadImage)), loadCaptionFont(captionStyle)]);
+    let { width, height } = computeOutputSize(images[0], options.maxDimension);
+
+    const plan = await negotiateEncoding(options.format, width, height, options.fps, Boolean(timeline.audio));
+    if (plan.kind === 'gif') {
+        ({ width, height } = computeOutputSize(images[0], Math.min(options.maxDimension, GIF_MAX_DIMENSION)));
+        options.fps = Math.min(options.fps, GIF_FPS);
+    }
+    if (options.format !== 'auto' && plan.format !== options.format) {
+        console.warn(`${options.format.toUpperCase()} is not supported on this browser. Falling back to ${plan.format.toUpperCase()}.`);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: plan.kind === 'gif' });
+    if (!ctx) {
+        throw new Error("Could not create canvas context.");
+    }
+    ctx.imageSmoothingQuality = 'high';
+
+    const render: RenderContext = {
+        ctx,
+        images,
+        width,
+        height,
+        frameDurationMs,
+        options,
+        dissolveThresholds: createDissolveThresholds(width, height),
+        timeline,
+        captionStyle,
+    };
+    const totalFrames = Math.ceil((timelineDurationMs(render) * options.fps) / 1000);
+
+    let blob: Blob;
+    switch (plan.kind) {
+        case 'webcodecs':
+            blob = await encodeWithWebCodecs(render, canvas, totalFrames, plan, onProgress);
+            break;
+        case 'mediarecorder':
+            blob = await recordWithMediaRecorder(render, canvas, totalFrames, plan, onProgress);
+            break;
+        case 'gif':
+            blob = await encodeGif(render, totalFrames, onProgress);
+            break;
+    }
+
+    return {
+        url: URL.createObjectURL(blob),
+        format: plan.format,
+        mimeType: MIME_TYPES[plan.format],
+        extension: plan.format,
+    };
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A minimal WebM (Matroska) muxer for a single video track of WebCodecs chunks.
+ * Everything is buffered in memory and written out in one go by finalize(), which
+ * lets the file carry exact sizes, a duration, and cues for seeking.
+ */
+
+export interface WebmMuxerOptions {
+    /** Matroska codec ID, e.g. "V_VP9" or "V_VP8". */
+    codecId: string;
+    width: number;
+    height: number;
+}
+
+interface BufferedChunk {
+    data: Uint8Array;
+    timestampMs: number;
+    keyFrame: boolean;
+}
+
+type EbmlValue = Uint8Array | EbmlElement[];
+
+interface EbmlElement {
+    id: number;
+    value: EbmlValue;
+}
+
+// Clusters store block timecodes as signed 16-bit offsets, so start a new one well before that overflows.
+const MAX_CLUSTER_DURATION_MS = 30000;
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const length = parts.reduce((total, part) => total + part.length, 0);
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+function encodeId(id: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let value = id; value > 0; value = Math.floor(value / 256)) {
+        bytes.unshift(value & 0xff);
+    }
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes an element size as an EBML variable-length integer.
+ */
+function encodeSize(size: number): Uint8Array {
+    let length = 1;
+    while (size >= Math.pow(2, 7 * length) - 1 && length < 8) {
+        length++;
+    }
+    const bytes = new Uint8Array(length);
+    let value = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = value & 0xff;
+        value = Math.floor(value / 256);
+    }
+    bytes[0] |= 1 << (8 - length);
+    return bytes;
+}
+
+function uint(value: number, byteLength?: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let remaining = value; remaining > 0; remaining = Math.floor(remaining / 256)) {
+        bytes.unshift(remaining & 0xff);
+    }
+    while (bytes.length < (byteLength ?? 1)) {
+        bytes.unshift(0);
+    }
+    return new Uint8Array(bytes);
+}
+
+function float64(value: number): Uint8Array {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return bytes;
+}
+
+function text(value: string): Uint8Array {
+    return new TextEncoder().encode(value);
+}
+
+function serialize(element: EbmlElement): Uint8Array {
+    const body = element.value instanceof Uint8Array
+        ? element.value
+        : concat(element.value.map(serialize));
+    return concat([encodeId(element.id), encodeSize(body.length), body]);
+}
+
+function simpleBlock(chunk: BufferedChunk, clusterTimecode: number): Uint8Array {
+    const header = new Uint8Array(4);
+    header[0] = 0x81; // Track number 1, as a one-byte vint.
+    new DataView(header.buffer).setInt16(1, Math.round(chunk.timestampMs - clusterTimecode));
+    header[3] = chunk.keyFrame ? 0x80 : 0x00;
+    return concat([header, chunk.data]);
+}
+
+/**
+ * Serializes buffered chunks into a complete WebM file.
+ * @param options The codec and frame size of the track.
+ * @param chunks The encoded chunks, in decode order.
+ * @param durationMs The total duration of the track.
+ * @returns The WebM file as a Blob.
+ */
+function writeWebm(options: WebmMuxerOptions, chunks: BufferedChunk[], durationMs: number): Blob {
+    const { codecId, width, height } = options;
+
+    const header = serialize({ id: 0x1a45dfa3, value: [
+        { id: 0x4286, value: uint(1) },      // EBMLVersion
+        { id: 0x42f7, value: uint(1) },      // EBMLReadVersion
+        { id: 0x42f2, value: uint(4) },      // EBMLMaxIDLength
+        { id: 0x42f3, value: uint(8) },      // EBMLMaxSizeLength
+        { id: 0x4282, value: text('webm') }, // DocType
+        { id: 0x4287, value: uint(2) },      // DocTypeVersion
+        { id: 0x4285, value: uint(2) },      // DocTypeReadVersion
+    ] });
+
+    const info = serialize({ id: 0x1549a966, value: [
+        { id: 0x2ad7b1, value: uint(1000000) },        // TimecodeScale: 1ms
+        { id: 0x4d80, value: text('age-voyager') },    // MuxingApp
+        { id: 0x5741, value: text('age-voyager') },    // WritingApp
+        { id: 0x4489, value: float64(durationMs) }, // Duration
+    ] });
+
+    const tracks = serialize({ id: 0x1654ae6b, value: [
+        { id: 0xae, value: [                      // TrackEntry
+            { id: 0xd7, value: uint(1) },         // TrackNumber
+            { id: 0x73c5, value: uint(1) },       // TrackUID
+            { id: 0x83, value: uint(1) },         // TrackType: video
+            { id: 0x86, value: text(codecId) },   // CodecID
+            { id: 0xe0, value: [                  // Video
+                { id: 0xb0, value: uint(width, 2) },  // PixelWidth
+                { id: 0xba, value: uint(height, 2) }, // PixelHeight
+            ] },
+        ] },
+    ] });
+
+    // Group chunks into clusters, starting a new one at every keyframe past the duration limit.
+    const clusters: { timecode: number; chunks: BufferedChunk[] }[] = [];
+    for (const chunk of chunks) {
+        const current = clusters[clusters.length - 1];
+        if (!current || (chunk.keyFrame && chunk.timestampMs - current.timecode >= MAX_CLUSTER_DURATION_MS) || chunk.timestampMs - current.timecode > 32767) {
+            clusters.push({ timecode: chunk.timestampMs, chunks: [chunk] });
+        } else {
+            current.chunks.push(chunk);
+        }
+    }
+
+    // The SeekHead uses fixed-width positions, so its size is known before the offsets are.
+    const seekEntry = (id: number, position: number): EbmlElement => ({ id: 0x4dbb, value: [
+        { id: 0x53ab, value: encodeId(id) },       // SeekID
+        { id: 0x53ac, value: uint(position, 8) },  // SeekPosition
+    ] });
+    const buildSeekHead = (infoPos: number, tracksPos: number, cuesPos: number) => serialize({ id: 0x114d9b74, value: [
+        seekEntry(0x1549a966, infoPos),
+        seekEntry(0x1654ae6b, tracksPos),
+        seekEntry(0x1c53bb6b, cuesPos),
+    ] });
+    const seekHeadLength = buildSeekHead(0, 0, 0).length;
+
+    let position = seekHeadLength;
+    const infoPosition = position;
+    position += info.length;
+    const tracksPosition = position;
+    position += tracks.length;
+
+    const cuePoints: EbmlElement[] = [];
+    const clusterBytes = clusters.map(cluster => {
+        const bytes = serialize({ id: 0x1f43b675, value: [
+            { id: 0xe7, value: uint(Math.round(cluster.timecode)) }, // Timecode
+            ...cluster.chunks.map(chunk => ({ id: 0xa3, value: simpleBlock(chunk, Math.round(cluster.timecode)) })),
+        ] });
+        if (cluster.chunks[0].keyFrame) {
+            cuePoints.push({ id: 0xbb, value: [
+                { id: 0xb3, value: uint(Math.round(cluster.timecode)) }, // CueTime
+                { id: 0xb7, value: [                                      // CueTrackPositions
+                    { id: 0xf7, value: uint(1) },                         // CueTrack
+                    { id: 0xf1, value: uint(position) },                  // CueClusterPosition
+                ] },
+            ] });
+        }
+        position += bytes.length;
+        return bytes;
+    });
+
+    const cuesPosition = position;
+    const cues = serialize({ id: 0x1c53bb6b, value: cuePoints });
+    const seekHead = buildSeekHead(infoPosition, tracksPosition, cuesPosition);
+
+    const segmentBody = concat([seekHead, info, tracks, ...clusterBytes, cues]);
+    const segment = concat([encodeId(0x18538067), encodeSize(segmentBody.length), segmentBody]);
+
+    return new Blob([header, segment], { type: 'video/webm' });
+}
+
+export interface WebmMuxer {
+    /** Buffers an encoded chunk from a VideoEncoder output callback. */
+    addVideoChunk(chunk: EncodedVideoChunk): void;
+    /** Writes the buffered chunks into a complete WebM file. */
+    finalize(): Blob;
+}
+
+/**
+ * Creates a muxer for one video track.
+ * @param options The codec and frame size of the track.
+ * @returns A new WebmMuxer.
+ */
+export function createWebmMuxer(options: WebmMuxerOptions): WebmMuxer {
+    const chunks: BufferedChunk[] = [];
+    let durationMs = 0;
+
+    const addVideoChunk = (chunk: EncodedVideoChunk) => {
+        const data = new Uint8Array(chunk.byteLength);
+        chunk.copyTo(data);
+        const timestampMs = chunk.timestamp / 1000;
+        chunks.push({ data, timestampMs, keyFrame: chunk.type === 'key' });
+        durationMs = Math.max(durationMs, timestampMs + (chunk.duration ?? 0) / 1000);
+    };
+
+    const finalize = () => writeWebm(options, chunks, durationMs);
+
+    return { addVideoChunk, finalize };
+}
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A minimal ZIP writer and reader. Files are written uncompressed ("stored"), since the
+ * images and videos they hold are already compressed; the reader also accepts deflated
+ * entries from other tools, using the browser's DecompressionStream.
+ */
+
+export interface ZipInput {
+    /** Path inside the archive, using forward slashes. */
+    name: string;
+    data: Blob | Uint8Array | string;
+    /** Modification time recorded in the archive. Defaults to now. */
+    modified?: Date;
+}
+
+export interface ZipEntry {
+    name: string;
+    data: Uint8Array;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const FLAG_UTF8_NAMES = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Computes the CRC-32 checksum used by ZIP archives and PNG chunks.
+ * @param data The bytes to checksum.
+ * @returns The checksum as an unsigned 32-bit integer.
+ */
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs a date into the MS-DOS time and date fields ZIP uses.
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+    const year = Math.max(1980, date.getFullYear());
+    return {
+        time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+async function toBytes(data: ZipInput['data']): Promise<Uint8Array> {
+    if (typeof data === 'string') return new TextEncoder().encode(data);
+    if (data instanceof Uint8Array) return data;
+    return new Uint8Array(await data.arrayBuffer());
+}
+
+/**
+ * Builds a ZIP archive.
+ * @param inputs The files to include, in order.
+ * @returns A promise that resolves to the archive as a Blob.
+ */
+export async function createZip(inputs: ZipInput[]): Promise<Blob> {
+    const parts: BlobPart[] = [];
+    const centralDirectory: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const input of inputs) {
+        const name = new TextEncoder().encode(input.name);
+        const data = await toBytes(input.data);
+        const crc = crc32(data);
+        const { time, date } = toDosDateTime(input.modified ?? new Date());
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+        local.setUint16(4, 20, true);              // version needed to extract
+        local.setUint16(6, FLAG_UTF8_NAMES, true);
+        local.setUint16(8, METHOD_STORED, true);
+        local.setUint16(10, time, true);
+        local.setUint16(12, date, true);
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);    // compressed size
+        local.setUint32(22, data.length, true);    // uncompressed size
+        local.setUint16(26, name.length, true);
+        local.setUint16(28, 0, true);              // extra field length
+        parts.push(local.buffer, name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+        central.setUint16(4, 20, true);            // version made by
+        central.setUint16(6, 20, true);            // version needed to extract
+        central.setUint16(8, FLAG_UTF8_NAMES, true);
+        central.setUint16(10, METHOD_STORED, true);
+        central.setUint16(12, time, true);
+        central.setUint16(14, date, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);       // local header offset
+        centralDirectory.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralDirectory.reduce((total, part) => total + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, inputs.length, true);         // entries on this disk
+    end.setUint16(10, inputs.length, true);        // total entries
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);               // central directory offset
+
+    return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error("This browser can't read compressed ZIP files.");
+    }
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Reads every file in a ZIP archive.
+ * @param blob The archive.
+ * @returns A promise that resolves to the archive's files. Directories are skipped.
+ */
+export async function readZip(blob: Blob): Promise<ZipEntry[]> {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    // The end-of-central-directory record sits at the end, possibly followed by a comment.
+    let endOffset = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+            endOffset = i;
+            break;
+        }
+    }
+    if (endOffset === -1) {
+        throw new Error("The file is not a valid ZIP archive.");
+    }
+
+    const entryCount = view.getUint16(endOffset + 10, true);
+    let position = view.getUint32(endOffset + 16, true);
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error("The ZIP archive's directory is corrupted.");
+        }
+        const method = view.getUint16(position + 10, true);
+        const compressedSize = view.getUint32(position + 20, true);
+        const nameLength = view.getUint16(position + 28, true);
+        const extraLength = view.getUint16(position + 30, true);
+        const commentLength = view.getUint16(position + 32, true);
+        const localOffset = view.getUint32(position + 42, true);
+        const name = new TextDecoder().decode(bytes.subarray(position + 46, position + 46 + nameLength));
+        position += 46 + nameLength + extraLength + commentLength;
+
+        if (name.endsWith('/')) continue;
+
+        const localNameLength = view.getUint16(localOffset + 26, true);
+        const localExtraLength = view.getUint16(localOffset + 28, true);
+        const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+        const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+
+        if (method === METHOD_STORED) {
+            entries.push({ name, data: raw });
+        } else if (method === METHOD_DEFLATE) {
+            entries.push({ name, data: await inflateRaw(raw) });
+        } else {
+            throw new Error(`"${name}" uses an unsupported ZIP compression method.`);
+        }
+    }
+    return entries;
+}
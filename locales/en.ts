@@ -0,0 +1,310 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * English UI text, and the source of truth for which messages exist. Placeholders are written
+ * as `{name}`; messages that depend on a count have `.one` and `.other` variants.
+ */
+export const en = {
+    'app.title': "Age Voyager",
+    'app.tagline': "See yourself at any age from 1 to 100.",
+    'language.label': "Language",
+
+    'common.raw': "{text}",
+    'common.startOver': "Start Over",
+    'common.tryAgain': "Try Again",
+    'common.cancel': "Cancel",
+    'common.ageLabel': "Age {age}",
+
+    'idle.clickToBegin': "Click to begin",
+    'idle.dropToBegin': "Drop to begin",
+    'idle.instructions': "Upload, drop or paste a clear photo of a person to start your journey through time.",
+    'idle.useCamera': "Use Camera",
+    'idle.openSession': "Open a saved session",
+
+    'estimating.photoAlt': "Uploaded photo",
+    'estimating.title': "Calibrating time machine...",
+    'estimating.subtitle': "Finding faces and estimating ages to anchor the timeline.",
+
+    'subject.photoAlt': "Uploaded group photo",
+    'subject.title': "Who's travelling through time?",
+    'subject.subtitle': "We found {count} people. Tap a face to choose who to age.",
+
+    'viewer.personAtAge': "Person at age {age}",
+    'status.showingAge': "Showing age",
+    'status.renderingAge': "rendering age",
+
+    'actions.downloadImage': "Download Image",
+    'actions.watermark': "Label downloads as AI-generated",
+    'actions.downloadAll': "Download all",
+    'actions.downloadAllHint': "Every generated age, the original photo, the video and a manifest, in one ZIP file",
+    'actions.preparingDownload': "Preparing download...",
+    'actions.saveSession': "Save session",
+    'actions.showBoard': "Show polaroid board",
+    'actions.hideBoard': "Hide polaroid board",
+    'actions.clearCache.one': "Clear cache ({count} image, {size} MB)",
+    'actions.clearCache.other': "Clear cache ({count} images, {size} MB)",
+
+    'video.create': "Create Evolution Video",
+    'video.resume': "Resume Evolution Video",
+    'video.stop': "Stop",
+    'video.frames': "Frames",
+    'video.framesHint': "Independent: every frame from your photo. Chained: each frame from its neighbour. Blended: your photo plus the neighbour as a reference.",
+    'video.parallel': "Parallel",
+    'video.strategy.independent': "Independent",
+    'video.strategy.chained': "Chained",
+    'video.strategy.blended': "Blended",
+    'video.generatingFrames': "Generating frames ({done}/{total})...",
+    'video.compiling': "Compiling frames into video...",
+    'video.caption': "Age {age} · {year}",
+    'video.closingTitle': "A lifetime in seconds",
+    'video.closingSubtitle': "Ages {first} to {last}",
+    'video.framesFailed': "{failed} of {total} frames failed",
+    'video.framesFailedAction': "Resume to retry only the missing frames.",
+    'video.stoppedTitle': "Video generation stopped",
+    'video.stoppedExplanation': "Frames that were already finished are kept.",
+    'video.stoppedAction': "Resume to generate only the missing frames.",
+    'video.formatFallbackTitle': "Saved as {format} instead",
+    'video.formatFallbackExplanation': "{requested} isn't supported by this browser, so the video was saved as {format}.",
+    'video.progress.initializing': "Initializing video encoder...",
+    'video.progress.rendering': "Rendering video... {percent}%",
+    'video.progress.recording': "Recording video... {percent}%",
+    'video.progress.encodingGif': "Encoding GIF... {percent}%",
+    'video.progress.finalizing': "Finalizing video...",
+    'video.progress.finalizingGif': "Finalizing GIF...",
+
+    'slider.modeGroup': "Slider mode",
+    'slider.byAge': "By age",
+    'slider.byYear': "By year",
+    'slider.yearsOld': "years old",
+    'slider.year': "year",
+    'slider.ageAria': "Age slider",
+    'slider.yearAria': "Year slider",
+    'slider.ageValueText': "Age {age}, year {year}",
+    'slider.yearValueText': "{year}, age {age}",
+    'slider.yearBeforeBirthValueText': "{year}, before birth",
+    'slider.beforeBirth': "That's before they were born in {year}.",
+    'slider.onlyBaby': "They're only a baby in {year}.",
+    'slider.pickLater': "Pick {year} or later.",
+    'slider.keyboardHint': "Arrow keys change the age by one year. Page Up and Page Down jump a decade.",
+
+    'shortcuts.hint': "Keys: ←/→ age · PgUp/PgDn decade (on the photo or board) · D download · V video",
+    'announce.generatingAge': "Generating age {age}…",
+    'announce.showingAge': "Showing age {age}, year {year}",
+    'announce.videoProgress': "Generating video frames: {done} of {total} done",
+
+    'videoModal.title': "Age evolution video",
+    'videoModal.animationAlt': "Age evolution animation",
+    'videoModal.download': "Download .{extension}",
+    'videoModal.downloadLabel': "Download {format}",
+    'videoModal.close': "Close video player",
+
+    'videoSettings.transition': "Transition",
+    'videoSettings.transition.cut': "Hard cut",
+    'videoSettings.transition.crossfade': "Crossfade",
+    'videoSettings.transition.dissolve': "Dissolve",
+    'videoSettings.transition.kenburns': "Ken Burns",
+    'videoSettings.easing': "Easing",
+    'videoSettings.easing.linear': "Linear",
+    'videoSettings.easing.easeIn': "Ease in",
+    'videoSettings.easing.easeOut': "Ease out",
+    'videoSettings.easing.easeInOut': "Ease in-out",
+    'videoSettings.fit': "Fit",
+    'videoSettings.fit.letterbox': "Letterbox",
+    'videoSettings.fit.crop': "Crop",
+    'videoSettings.format': "Format",
+    'videoSettings.format.auto': "Auto",
+    'videoSettings.format.mp4': "MP4",
+    'videoSettings.format.webm': "WebM",
+    'videoSettings.format.gif': "GIF",
+
+    'videoTimeline.captions': "Captions",
+    'videoTimeline.titleCards': "Title cards",
+    'videoTimeline.font': "Font",
+    'videoTimeline.font.marker': "Marker",
+    'videoTimeline.font.caveat': "Handwritten",
+    'videoTimeline.font.roboto': "Clean",
+    'videoTimeline.position': "Position",
+    'videoTimeline.position.bottom': "Bottom",
+    'videoTimeline.position.top': "Top",
+    'videoTimeline.addSoundtrack': "Add soundtrack",
+    'videoTimeline.removeSoundtrack': "Remove soundtrack",
+
+    'frames.ready': "{done}/{total} frames ready",
+    'frames.status.pending': "waiting",
+    'frames.status.running': "generating",
+    'frames.status.done': "done",
+    'frames.status.error': "failed",
+    'frames.tooltip': "Age {age}: {status}",
+    'frames.blocked': "Age {age}: needs the frame for age {dependency}, which failed",
+
+    'strategies.compare': "Compare strategies",
+    'strategies.frameTitle': "{strategy}, age {age}",
+
+    'presets.label': "Style preset",
+    'presets.realistic.label': "Realistic era photo",
+    'presets.realistic.description': "A believable photo from the year you reach that age.",
+    'presets.yearbook.label': "Yearbook portrait",
+    'presets.yearbook.description': "A posed school portrait styled for the decade.",
+    'presets.fantasy.label': "Fantasy",
+    'presets.fantasy.description': "An epic fantasy character, aged to match.",
+    'presets.superhero.label': "Superhero",
+    'presets.superhero.description': "A superhero at every stage of life.",
+    'presets.historical.label': "Historical figure",
+    'presets.historical.description': "A notable figure of the era, not an ordinary snapshot.",
+
+    'ageAnchor.estimatedAge': "Estimated age",
+    'ageAnchor.estimateDetails': "({min}–{max}, {confidence}% confident)",
+    'ageAnchor.correctedAge': "Age",
+    'ageAnchor.correctedDetails': "in {photoYear}, born {birthYear}",
+    'ageAnchor.estimateWas': "(estimate was {age})",
+    'ageAnchor.correct': "Correct it",
+    'ageAnchor.ageInPhoto': "Age in photo",
+    'ageAnchor.birthYear': "Birth year",
+    'ageAnchor.photoTaken': "Photo taken",
+    'ageAnchor.apply': "Apply",
+    'ageAnchor.useEstimate': "Use estimate",
+
+    'references.label': "Reference photos",
+    'references.hint': "Extra photos of the same person help keep their likeness at extreme ages.",
+    'references.count': "References {count}/{max}",
+    'references.photoAlt': "Reference photo {number}",
+    'references.remove': "Remove reference photo {number}",
+    'references.add': "Add reference photos",
+
+    'comparison.label': "Compare",
+    'comparison.modeGroup': "Comparison mode",
+    'comparison.mode.off': "Off",
+    'comparison.mode.split': "Split",
+    'comparison.mode.sideBySide': "Side by side",
+    'comparison.mode.blink': "Blink",
+    'comparison.originalAge': "Age {age} (original)",
+    'comparison.currentAge': "Current age",
+    'comparison.beforeAge': "Before age",
+    'comparison.afterAge': "After age",
+    'comparison.versus': "vs",
+    'viewer.region': "Photo viewer. Use the arrow keys to change the age.",
+    'viewer.divider': "Comparison divider between {before} and {after}",
+    'viewer.selectFace': "Select {person}, about {age} years old",
+    'viewer.personNumber': "person {number}",
+
+    'polaroid.uploadPhoto': "Upload Photo",
+    'board.empty': "Generated ages will be pinned here.",
+    'board.caption': "Age {age} · {year}",
+    'board.pin': "Pin age {age} as favourite",
+    'board.unpin': "Unpin age {age}",
+    'board.remove': "Remove age {age} from the board",
+    'board.show': "Show age {age} ({year})",
+    'board.rotate': "Rotate card. Use the arrow keys to turn it.",
+
+    'album.summary.one': "Album ({count} age)",
+    'album.summary.other': "Album ({count} ages)",
+    'album.layoutLabel': "Album layout",
+    'album.layout.grid': "Grid",
+    'album.layout.timeline': "Timeline strip",
+    'album.layout.decades': "Page per decade",
+    'album.exporting': "Exporting...",
+    'album.exportFailed': "Could not export the album.",
+    'album.decade': "The {decade}s",
+    'album.decadeContinued': "The {decade}s (continued)",
+
+    'era.edwardian': "Edwardian",
+    'era.greatWar': "Great War",
+    'era.roaringTwenties': "Roaring Twenties",
+    'era.depression': "Depression",
+    'era.ww2': "WWII",
+    'era.rockAndRoll': "Rock & roll",
+    'era.spaceAge': "Space Age",
+    'era.disco': "Disco",
+    'era.neon80s': "Neon 80s",
+    'era.grunge': "Grunge",
+    'era.y2k': "Y2K",
+    'era.smartphones': "Smartphones",
+    'era.streaming': "Streaming",
+    'era.future': "The future",
+
+    'camera.previewLabel': "Camera preview",
+    'camera.capturedAlt': "Captured photo",
+    'camera.starting': "Starting camera...",
+    'camera.retake': "Retake",
+    'camera.usePhoto': "Use Photo",
+    'camera.takePhoto': "Take Photo",
+    'camera.blocked': "Camera access was blocked. Allow it in your browser's site settings, or upload a photo instead.",
+    'camera.notFound': "No camera was found on this device. Please upload a photo instead.",
+    'camera.inUse': "The camera is being used by another app. Close it and try again.",
+    'camera.failed': "The camera couldn't be started. Please upload a photo instead.",
+
+    'footer.poweredBy': "Powered by Gemini 2.5 Pro & Flash Image",
+    'footer.createdBy': "Created by",
+    'footer.remix': "Remix this app...",
+    'footer.idea.video': "to create an evolution video of your life.",
+    'footer.idea.historicalFigure': "to see yourself as a historical figure.",
+    'footer.idea.familyTree': "to create a family tree visualization.",
+    'footer.idea.yearbook': "to generate a yearbook photo for any decade.",
+    'footer.idea.fantasy': "to create a fantasy version of yourself.",
+    'footer.idea.superhero': "to design a superhero at different life stages.",
+    'footer.idea.historicalEvents': "to place yourself in famous historical events.",
+    'footer.appsOnStudio': "Apps on AI Studio",
+    'footer.chatWithGemini': "Chat with Gemini",
+
+    'errors.referencePhotosTitle': "Couldn't add reference photos",
+    'errors.referencePhotosFallback': "Please try different files.",
+    'errors.photoUnusableTitle': "This photo can't be used",
+    'errors.photoUnusableFallback': "Please try another one.",
+    'errors.noFacesTitle': "No faces found",
+    'errors.noFacesExplanation': "We couldn't find a face in this photo.",
+    'errors.noFacesAction': "Try one where a face is clearly visible and well lit.",
+
+    'errors.photo.unsupportedType': "Sorry, \"{type}\" files can't be used. Please choose a JPEG, PNG or WebP photo.",
+    'errors.photo.unknownType': "Sorry, this kind of file can't be used. Please choose a JPEG, PNG or WebP photo.",
+    'errors.photo.empty': "This file is empty. Please choose another photo.",
+    'errors.photo.tooLarge': "This photo is {size} MB, which is too large. Please choose one under {max} MB.",
+    'errors.photo.unreadable': "This photo couldn't be opened. It may be damaged or in an unsupported format.",
+    'errors.ageAnchor.contradiction': "Someone born in {birthYear} would be {ageBeforeBirthday} or {ageAfterBirthday} in {photoYear}, not {knownAge}. Please leave one of the fields empty.",
+    'errors.ageAnchor.futurePhoto': "The photo can't have been taken after {year}.",
+    'errors.ageAnchor.outOfRange': "That makes the person {age} in the photo. Ages from {min} to {max} are supported.",
+    'errors.session.notSession': "This file is not an Age Voyager session.",
+    'errors.session.noManifest': "This file is not an Age Voyager session. It has no manifest.",
+    'errors.session.newerVersion': "This session was saved by a newer version of Age Voyager.",
+    'errors.session.invalidField': "The session file is damaged: \"{field}\" is missing or invalid.",
+    'errors.session.missingFile': "The session file is incomplete: \"{name}\" is missing.",
+    'errors.soundtrackUnreadable': "Could not read the soundtrack file.",
+
+    'errors.context.estimateAge': "Couldn't estimate the age in this photo",
+    'errors.context.generateAge': "Couldn't generate age {age}",
+    'errors.context.generateFrames': "Couldn't generate the frames",
+    'errors.context.createVideo': "Couldn't create the video",
+    'errors.context.exportImage': "Couldn't export the image",
+    'errors.context.exportFrames': "Couldn't export the frames",
+    'errors.context.saveSession': "Couldn't save the session",
+    'errors.context.openSession': "Couldn't open the session",
+
+    'errors.rateLimited.title': "The image service is busy",
+    'errors.rateLimited.explanation': "Too many requests were sent in a short time, and retrying didn't get through.",
+    'errors.rateLimited.action': "Wait a minute, then try again. Lowering \"Parallel\" sends fewer requests at once.",
+    'errors.quotaExhausted.title': "The API quota has run out",
+    'errors.quotaExhausted.explanation': "The Gemini API key has used up its allowance for now.",
+    'errors.quotaExhausted.action': "Try again after the quota resets, or switch to a key with a higher limit.",
+    'errors.safetyBlocked.title': "The request was blocked by safety filters",
+    'errors.safetyBlocked.explanation': "The model declined this photo or prompt because it may break its content policies.",
+    'errors.safetyBlocked.action': "Try a different photo or another style preset.",
+    'errors.invalidInput.title': "This photo couldn't be processed",
+    'errors.invalidInput.explanation': "The service rejected the image or request as invalid.",
+    'errors.invalidInput.action': "Try a different JPEG, PNG or WebP photo.",
+    'errors.offline.title': "You appear to be offline",
+    'errors.offline.explanation': "The image service couldn't be reached.",
+    'errors.offline.action': "Check your internet connection, then try again.",
+    'errors.modelRefusal.title': "The model didn't return an image",
+    'errors.modelRefusal.explanation': "It answered with text instead of a picture, which usually means it wouldn't make this edit.",
+    'errors.modelRefusal.action': "Try a nearby age, another style preset, or a clearer photo.",
+    'errors.serverError.title': "The image service had a problem",
+    'errors.serverError.explanation': "The service failed on its side, even after retrying.",
+    'errors.serverError.action': "Try again in a few moments.",
+    'errors.unknown.title': "Something went wrong",
+    'errors.unknown.explanation': "An unexpected error occurred.",
+    'errors.unknown.action': "Try again. If it keeps happening, reload the page.",
+};
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,308 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MessageKey } from './en';
+
+/**
+ * Italian UI text. Typed against the English messages, so a missing key fails the build.
+ */
+export const it: Record<MessageKey, string> = {
+    'app.title': "Age Voyager",
+    'app.tagline': "Guardati a qualsiasi età, da 1 a 100 anni.",
+    'language.label': "Lingua",
+
+    'common.raw': "{text}",
+    'common.startOver': "Ricomincia",
+    'common.tryAgain': "Riprova",
+    'common.cancel': "Annulla",
+    'common.ageLabel': "{age} anni",
+
+    'idle.clickToBegin': "Clicca per iniziare",
+    'idle.dropToBegin': "Rilascia per iniziare",
+    'idle.instructions': "Carica, trascina o incolla una foto nitida di una persona per iniziare il tuo viaggio nel tempo.",
+    'idle.useCamera': "Usa la fotocamera",
+    'idle.openSession': "Apri una sessione salvata",
+
+    'estimating.photoAlt': "Foto caricata",
+    'estimating.title': "Calibrazione della macchina del tempo...",
+    'estimating.subtitle': "Cerchiamo i volti e stimiamo le età per ancorare la linea del tempo.",
+
+    'subject.photoAlt': "Foto di gruppo caricata",
+    'subject.title': "Chi viaggia nel tempo?",
+    'subject.subtitle': "Abbiamo trovato {count} persone. Tocca un volto per scegliere chi invecchiare.",
+
+    'viewer.personAtAge': "Persona a {age} anni",
+    'status.showingAge': "Età mostrata:",
+    'status.renderingAge': "generazione dell'età",
+
+    'actions.downloadImage': "Scarica l'immagine",
+    'actions.watermark': "Segna i download come generati dall'IA",
+    'actions.downloadAll': "Scarica tutto",
+    'actions.downloadAllHint': "Tutte le età generate, la foto originale, il video e un manifesto, in un unico file ZIP",
+    'actions.preparingDownload': "Preparazione del download...",
+    'actions.saveSession': "Salva la sessione",
+    'actions.showBoard': "Mostra la bacheca di polaroid",
+    'actions.hideBoard': "Nascondi la bacheca di polaroid",
+    'actions.clearCache.one': "Svuota la cache ({count} immagine, {size} MB)",
+    'actions.clearCache.other': "Svuota la cache ({count} immagini, {size} MB)",
+
+    'video.create': "Crea il video dell'evoluzione",
+    'video.resume': "Riprendi il video dell'evoluzione",
+    'video.stop': "Interrompi",
+    'video.frames': "Fotogrammi",
+    'video.framesHint': "Indipendenti: ogni fotogramma dalla tua foto. Concatenati: ogni fotogramma dal precedente. Misti: la tua foto più il fotogramma vicino come riferimento.",
+    'video.parallel': "In parallelo",
+    'video.strategy.independent': "Indipendenti",
+    'video.strategy.chained': "Concatenati",
+    'video.strategy.blended': "Misti",
+    'video.generatingFrames': "Generazione dei fotogrammi ({done}/{total})...",
+    'video.compiling': "Montaggio dei fotogrammi nel video...",
+    'video.caption': "{age} anni · {year}",
+    'video.closingTitle': "Una vita in pochi secondi",
+    'video.closingSubtitle': "Da {first} a {last} anni",
+    'video.framesFailed': "{failed} fotogrammi su {total} non sono riusciti",
+    'video.framesFailedAction': "Riprendi per rigenerare solo i fotogrammi mancanti.",
+    'video.stoppedTitle': "Generazione del video interrotta",
+    'video.stoppedExplanation': "I fotogrammi già completati vengono conservati.",
+    'video.stoppedAction': "Riprendi per generare solo i fotogrammi mancanti.",
+    'video.formatFallbackTitle': "Salvato invece come {format}",
+    'video.formatFallbackExplanation': "{requested} non è supportato da questo browser, quindi il video è stato salvato come {format}.",
+    'video.progress.initializing': "Avvio del codificatore video...",
+    'video.progress.rendering': "Rendering del video... {percent}%",
+    'video.progress.recording': "Registrazione del video... {percent}%",
+    'video.progress.encodingGif': "Codifica della GIF... {percent}%",
+    'video.progress.finalizing': "Completamento del video...",
+    'video.progress.finalizingGif': "Completamento della GIF...",
+
+    'slider.modeGroup': "Modalità del cursore",
+    'slider.byAge': "Per età",
+    'slider.byYear': "Per anno",
+    'slider.yearsOld': "anni",
+    'slider.year': "anno",
+    'slider.ageAria': "Cursore dell'età",
+    'slider.yearAria': "Cursore dell'anno",
+    'slider.ageValueText': "{age} anni, anno {year}",
+    'slider.yearValueText': "{year}, {age} anni",
+    'slider.yearBeforeBirthValueText': "{year}, prima della nascita",
+    'slider.beforeBirth': "È prima della nascita, avvenuta nel {year}.",
+    'slider.onlyBaby': "Nel {year} è ancora un neonato.",
+    'slider.pickLater': "Scegli il {year} o un anno successivo.",
+    'slider.keyboardHint': "Le frecce cambiano l'età di un anno. Pag su e Pag giù saltano di un decennio.",
+
+    'shortcuts.hint': "Tasti: ←/→ età · PgSu/PgGiù decennio (sulla foto o sulla bacheca) · D scarica · V video",
+    'announce.generatingAge': "Generazione dell'età di {age} anni…",
+    'announce.showingAge': "Età mostrata: {age} anni, anno {year}",
+    'announce.videoProgress': "Generazione dei fotogrammi del video: {done} di {total} completati",
+
+    'videoModal.title': "Video dell'evoluzione",
+    'videoModal.animationAlt': "Animazione dell'evoluzione dell'età",
+    'videoModal.download': "Scarica .{extension}",
+    'videoModal.downloadLabel': "Scarica {format}",
+    'videoModal.close': "Chiudi il lettore video",
+
+    'videoSettings.transition': "Transizione",
+    'videoSettings.transition.cut': "Stacco netto",
+    'videoSettings.transition.crossfade': "Dissolvenza incrociata",
+    'videoSettings.transition.dissolve': "Dissolvenza a blocchi",
+    'videoSettings.transition.kenburns': "Ken Burns",
+    'videoSettings.easing': "Andamento",
+    'videoSettings.easing.linear': "Lineare",
+    'videoSettings.easing.easeIn': "Accelerato",
+    'videoSettings.easing.easeOut': "Rallentato",
+    'videoSettings.easing.easeInOut': "Morbido",
+    'videoSettings.fit': "Adattamento",
+    'videoSettings.fit.letterbox': "Bande nere",
+    'videoSettings.fit.crop': "Ritaglia",
+    'videoSettings.format': "Formato",
+    'videoSettings.format.auto': "Automatico",
+    'videoSettings.format.mp4': "MP4",
+    'videoSettings.format.webm': "WebM",
+    'videoSettings.format.gif': "GIF",
+
+    'videoTimeline.captions': "Didascalie",
+    'videoTimeline.titleCards': "Titoli",
+    'videoTimeline.font': "Carattere",
+    'videoTimeline.font.marker': "Pennarello",
+    'videoTimeline.font.caveat': "Corsivo",
+    'videoTimeline.font.roboto': "Semplice",
+    'videoTimeline.position': "Posizione",
+    'videoTimeline.position.bottom': "In basso",
+    'videoTimeline.position.top': "In alto",
+    'videoTimeline.addSoundtrack': "Aggiungi colonna sonora",
+    'videoTimeline.removeSoundtrack': "Rimuovi colonna sonora",
+
+    'frames.ready': "{done}/{total} fotogrammi pronti",
+    'frames.status.pending': "in attesa",
+    'frames.status.running': "in generazione",
+    'frames.status.done': "pronto",
+    'frames.status.error': "non riuscito",
+    'frames.tooltip': "Età {age}: {status}",
+    'frames.blocked': "Età {age}: serve il fotogramma dell'età {dependency}, che non è riuscito",
+
+    'strategies.compare': "Confronta le strategie",
+    'strategies.frameTitle': "{strategy}, età {age}",
+
+    'presets.label': "Stile",
+    'presets.realistic.label': "Foto d'epoca realistica",
+    'presets.realistic.description': "Una foto credibile dell'anno in cui raggiungi quell'età.",
+    'presets.yearbook.label': "Ritratto da annuario",
+    'presets.yearbook.description': "Un ritratto scolastico in posa, nello stile del decennio.",
+    'presets.fantasy.label': "Fantasy",
+    'presets.fantasy.description': "Un personaggio fantasy epico, con l'età giusta.",
+    'presets.superhero.label': "Supereroe",
+    'presets.superhero.description': "Un supereroe in ogni fase della vita.",
+    'presets.historical.label': "Personaggio storico",
+    'presets.historical.description': "Una figura di spicco dell'epoca, non una semplice istantanea.",
+
+    'ageAnchor.estimatedAge': "Età stimata",
+    'ageAnchor.estimateDetails': "({min}–{max}, affidabilità {confidence}%)",
+    'ageAnchor.correctedAge': "Età",
+    'ageAnchor.correctedDetails': "nel {photoYear}, anno di nascita {birthYear}",
+    'ageAnchor.estimateWas': "(la stima era {age})",
+    'ageAnchor.correct': "Correggi",
+    'ageAnchor.ageInPhoto': "Età nella foto",
+    'ageAnchor.birthYear': "Anno di nascita",
+    'ageAnchor.photoTaken': "Data della foto",
+    'ageAnchor.apply': "Applica",
+    'ageAnchor.useEstimate': "Usa la stima",
+
+    'references.label': "Foto di riferimento",
+    'references.hint': "Altre foto della stessa persona aiutano a mantenerne la somiglianza alle età estreme.",
+    'references.count': "Riferimenti {count}/{max}",
+    'references.photoAlt': "Foto di riferimento {number}",
+    'references.remove': "Rimuovi la foto di riferimento {number}",
+    'references.add': "Aggiungi foto di riferimento",
+
+    'comparison.label': "Confronta",
+    'comparison.modeGroup': "Modalità di confronto",
+    'comparison.mode.off': "No",
+    'comparison.mode.split': "Divisa",
+    'comparison.mode.sideBySide': "Affiancate",
+    'comparison.mode.blink': "Alternate",
+    'comparison.originalAge': "Età {age} (originale)",
+    'comparison.currentAge': "Età attuale",
+    'comparison.beforeAge': "Età prima",
+    'comparison.afterAge': "Età dopo",
+    'comparison.versus': "vs",
+    'viewer.region': "Visualizzatore della foto. Usa i tasti freccia per cambiare l'età.",
+    'viewer.divider': "Divisore del confronto tra {before} e {after}",
+    'viewer.selectFace': "Seleziona {person}, circa {age} anni",
+    'viewer.personNumber': "la persona {number}",
+
+    'polaroid.uploadPhoto': "Carica una foto",
+    'board.empty': "Le età generate verranno appese qui.",
+    'board.caption': "Età {age} · {year}",
+    'board.pin': "Fissa l'età {age} tra i preferiti",
+    'board.unpin': "Togli l'età {age} dai preferiti",
+    'board.remove': "Rimuovi l'età {age} dalla bacheca",
+    'board.show': "Mostra {age} anni ({year})",
+    'board.rotate': "Ruota la foto. Usa i tasti freccia per girarla.",
+
+    'album.summary.one': "Album ({count} età)",
+    'album.summary.other': "Album ({count} età)",
+    'album.layoutLabel': "Impaginazione dell'album",
+    'album.layout.grid': "Griglia",
+    'album.layout.timeline': "Linea del tempo",
+    'album.layout.decades': "Una pagina per decennio",
+    'album.exporting': "Esportazione...",
+    'album.exportFailed': "Impossibile esportare l'album.",
+    'album.decade': "Anni {decade}",
+    'album.decadeContinued': "Anni {decade} (continua)",
+
+    'era.edwardian': "Epoca edoardiana",
+    'era.greatWar': "Grande Guerra",
+    'era.roaringTwenties': "Anni ruggenti",
+    'era.depression': "Grande Depressione",
+    'era.ww2': "Seconda guerra mondiale",
+    'era.rockAndRoll': "Rock & roll",
+    'era.spaceAge': "Era spaziale",
+    'era.disco': "Disco",
+    'era.neon80s': "Anni '80 al neon",
+    'era.grunge': "Grunge",
+    'era.y2k': "Anni 2000",
+    'era.smartphones': "Smartphone",
+    'era.streaming': "Streaming",
+    'era.future': "Il futuro",
+
+    'camera.previewLabel': "Anteprima della fotocamera",
+    'camera.capturedAlt': "Foto scattata",
+    'camera.starting': "Avvio della fotocamera...",
+    'camera.retake': "Riscatta",
+    'camera.usePhoto': "Usa la foto",
+    'camera.takePhoto': "Scatta la foto",
+    'camera.blocked': "L'accesso alla fotocamera è stato bloccato. Consentilo nelle impostazioni del sito del browser oppure carica una foto.",
+    'camera.notFound': "Non è stata trovata nessuna fotocamera su questo dispositivo. Carica una foto.",
+    'camera.inUse': "La fotocamera è usata da un'altra app. Chiudila e riprova.",
+    'camera.failed': "Impossibile avviare la fotocamera. Carica una foto.",
+
+    'footer.poweredBy': "Basato su Gemini 2.5 Pro e Flash Image",
+    'footer.createdBy': "Creato da",
+    'footer.remix': "Remixa questa app...",
+    'footer.idea.video': "per creare un video dell'evoluzione della tua vita.",
+    'footer.idea.historicalFigure': "per vederti come un personaggio storico.",
+    'footer.idea.familyTree': "per visualizzare un albero genealogico.",
+    'footer.idea.yearbook': "per creare una foto dell'annuario di qualsiasi decennio.",
+    'footer.idea.fantasy': "per creare una versione fantasy di te stesso.",
+    'footer.idea.superhero': "per disegnare un supereroe in diverse fasi della vita.",
+    'footer.idea.historicalEvents': "per inserirti in famosi eventi storici.",
+    'footer.appsOnStudio': "App su AI Studio",
+    'footer.chatWithGemini': "Chatta con Gemini",
+
+    'errors.referencePhotosTitle': "Impossibile aggiungere le foto di riferimento",
+    'errors.referencePhotosFallback': "Prova con altri file.",
+    'errors.photoUnusableTitle': "Questa foto non può essere usata",
+    'errors.photoUnusableFallback': "Provane un'altra.",
+    'errors.noFacesTitle': "Nessun volto trovato",
+    'errors.noFacesExplanation': "Non abbiamo trovato un volto in questa foto.",
+    'errors.noFacesAction': "Provane una in cui il volto sia ben visibile e illuminato.",
+
+    'errors.photo.unsupportedType': "Spiacenti, i file \"{type}\" non si possono usare. Scegli una foto JPEG, PNG o WebP.",
+    'errors.photo.unknownType': "Spiacenti, questo tipo di file non si può usare. Scegli una foto JPEG, PNG o WebP.",
+    'errors.photo.empty': "Questo file è vuoto. Scegli un'altra foto.",
+    'errors.photo.tooLarge': "Questa foto pesa {size} MB, troppo. Scegline una sotto i {max} MB.",
+    'errors.photo.unreadable': "Non è stato possibile aprire questa foto. Potrebbe essere danneggiata o in un formato non supportato.",
+    'errors.ageAnchor.contradiction': "Chi è nato nel {birthYear} avrebbe {ageBeforeBirthday} o {ageAfterBirthday} anni nel {photoYear}, non {knownAge}. Lascia vuoto uno dei campi.",
+    'errors.ageAnchor.futurePhoto': "La foto non può essere stata scattata dopo il {year}.",
+    'errors.ageAnchor.outOfRange': "Così la persona avrebbe {age} anni nella foto. Sono supportate le età da {min} a {max}.",
+    'errors.session.notSession': "Questo file non è una sessione di Age Voyager.",
+    'errors.session.noManifest': "Questo file non è una sessione di Age Voyager: manca il manifest.",
+    'errors.session.newerVersion': "Questa sessione è stata salvata da una versione più recente di Age Voyager.",
+    'errors.session.invalidField': "Il file della sessione è danneggiato: \"{field}\" manca o non è valido.",
+    'errors.session.missingFile': "Il file della sessione è incompleto: manca \"{name}\".",
+    'errors.soundtrackUnreadable': "Impossibile leggere il file della colonna sonora.",
+
+    'errors.context.estimateAge': "Impossibile stimare l'età in questa foto",
+    'errors.context.generateAge': "Impossibile generare l'età di {age} anni",
+    'errors.context.generateFrames': "Impossibile generare i fotogrammi",
+    'errors.context.createVideo': "Impossibile creare il video",
+    'errors.context.exportImage': "Impossibile esportare l'immagine",
+    'errors.context.exportFrames': "Impossibile esportare i fotogrammi",
+    'errors.context.saveSession': "Impossibile salvare la sessione",
+    'errors.context.openSession': "Impossibile aprire la sessione",
+
+    'errors.rateLimited.title': "Il servizio di immagini è occupato",
+    'errors.rateLimited.explanation': "Sono state inviate troppe richieste in poco tempo e i nuovi tentativi non sono andati a buon fine.",
+    'errors.rateLimited.action': "Attendi un minuto e riprova. Riducendo \"In parallelo\" si inviano meno richieste alla volta.",
+    'errors.quotaExhausted.title': "La quota dell'API è esaurita",
+    'errors.quotaExhausted.explanation': "La chiave API di Gemini ha esaurito la sua disponibilità per ora.",
+    'errors.quotaExhausted.action': "Riprova quando la quota si azzera oppure usa una chiave con un limite più alto.",
+    'errors.safetyBlocked.title': "La richiesta è stata bloccata dai filtri di sicurezza",
+    'errors.safetyBlocked.explanation': "Il modello ha rifiutato questa foto o richiesta perché potrebbe violare le sue norme sui contenuti.",
+    'errors.safetyBlocked.action': "Prova con un'altra foto o un altro stile.",
+    'errors.invalidInput.title': "Impossibile elaborare questa foto",
+    'errors.invalidInput.explanation': "Il servizio ha rifiutato l'immagine o la richiesta perché non valida.",
+    'errors.invalidInput.action': "Prova con un'altra foto JPEG, PNG o WebP.",
+    'errors.offline.title': "Sembra che tu sia offline",
+    'errors.offline.explanation': "Non è stato possibile raggiungere il servizio di immagini.",
+    'errors.offline.action': "Controlla la connessione a Internet e riprova.",
+    'errors.modelRefusal.title': "Il modello non ha restituito un'immagine",
+    'errors.modelRefusal.explanation': "Ha risposto con del testo invece di un'immagine, il che di solito significa che non voleva fare questa modifica.",
+    'errors.modelRefusal.action': "Prova un'età vicina, un altro stile o una foto più nitida.",
+    'errors.serverError.title': "Il servizio di immagini ha avuto un problema",
+    'errors.serverError.explanation': "Il servizio ha avuto un errore, anche dopo altri tentativi.",
+    'errors.serverError.action': "Riprova tra qualche istante.",
+    'errors.unknown.title': "Qualcosa è andato storto",
+    'errors.unknown.explanation': "Si è verificato un errore imprevisto.",
+    'errors.unknown.action': "Riprova. Se continua a succedere, ricarica la pagina.",
+};
@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import type { ImageProvider } from '../services/imageProvider';
+import { geminiProvider } from '../services/geminiService';
+import { PROXY_ROUTES, DetectFacesRequest, GenerateAgeImageRequest } from '../services/proxyApi';
+import { isAbortError } from '../lib/abortUtils';
+import { classifyError, ImageErrorKind } from '../services/errors';
+import { createRateLimiter } from './rateLimiter';
+import { createStubModel } from './stubModel';
+
+/**
+ * A small API server that holds the Gemini key, so it never reaches the browser.
+ *
+ * Configuration comes from the environment:
+ * - GEMINI_API_KEY: the key used to call Gemini. Not needed with --stub.
+ * - PROXY_PORT: the port to listen on (default 8787).
+ * - PROXY_RATE_LIMIT: requests per client per minute (default 30).
+ * - PROXY_MAX_BODY_BYTES: the largest accepted request body (default 15 MB).
+ * - PROXY_TRUST_FORWARDED_FOR: set to 1 behind a reverse proxy, to rate limit by X-Forwarded-For.
+ * - PROXY_ALLOWED_ORIGINS: comma-separated origins allowed to call the proxy from a browser, or * for any.
+ *   Not needed when the app and the proxy share an origin, as with the dev server's /api forwarding.
+ * Pass --stub to answer with a stand-in model instead of Gemini.
+ */
+
+interface HttpError extends Error {
+    status: number;
+}
+
+/**
+ * Creates an error whose message is safe to send back to the client with the given status.
+ */
+function httpError(status: number, message: string): HttpError {
+    return Object.assign(new Error(message), { status });
+}
+
+function isHttpError(error: unknown): error is HttpError {
+    return error instanceof Error && typeof (error as Partial<HttpError>).status === 'number';
+}
+
+const API_PREFIX = '/api';
+const STATUS_BY_ERROR_KIND: Record<ImageErrorKind, number> = {
+    'rate-limited': 429,
+    'quota-exhausted': 429,
+    'safety-blocked': 422,
+    'model-refusal': 422,
+    'invalid-input': 400,
+    offline: 502,
+    'server-error': 502,
+    unknown: 500,
+};
+const MAX_REFERENCE_IMAGES = 4;
+const MAX_PROMPT_LENGTH = 4000;
+
+const useStub = process.argv.includes('--stub') || process.env.PROXY_MODEL === 'stub';
+const port = Number(process.env.PROXY_PORT ?? 8787);
+const maxBodyBytes = Number(process.env.PROXY_MAX_BODY_BYTES ?? 15 * 1024 * 1024);
+const trustForwardedFor = process.env.PROXY_TRUST_FORWARDED_FOR === '1';
+const allowedOrigins = (process.env.PROXY_ALLOWED_ORIGINS ?? '')
+    .split(',')
+    .map(origin => origin.trim())
+    .filter(origin => origin !== '');
+const rateLimiter = createRateLimiter({
+    maxRequests: Number(process.env.PROXY_RATE_LIMIT ?? 30),
+    windowMs: 60_000,
+});
+
+// geminiService reads API_KEY, the name the browser build used to inline.
+process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+if (!useStub && !process.env.API_KEY) {
+    console.error("GEMINI_API_KEY is not set. Set it, or start the server with --stub to use the stand-in model.");
+    process.exit(1);
+}
+const model: ImageProvider = useStub ? createStubModel() : geminiProvider;
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * Adds the CORS headers for the request's origin, so an app served from another host can call the proxy.
+ * Origins that aren't allowed get no Access-Control-Allow-Origin, and the browser blocks the response.
+ */
+function setCorsHeaders(req: IncomingMessage, res: ServerResponse): void {
+    const origin = req.headers.origin;
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    res.setHeader('Access-Control-Max-Age', '600');
+    if (allowedOrigins.includes('*')) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        return;
+    }
+    res.setHeader('Vary', 'Origin');
+    if (origin && allowedOrigins.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+    }
+}
+
+function clientIdOf(req: IncomingMessage): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (trustForwardedFor && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Reads and parses a JSON body, refusing to buffer more than the size cap.
+ */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const tooLargeMessage = `Request is too large. The limit is ${(maxBodyBytes / (1024 * 1024)).toFixed(1)} MB.`;
+    const declaredLength = Number(req.headers['content-length'] ?? 0);
+    if (declaredLength > maxBodyBytes) {
+        throw httpError(413, tooLargeMessage);
+    }
+    const chunks: Buffer[] = [];
+    let received = 0;
+    for await (const chunk of req) {
+        received += chunk.length;
+        if (received > maxBodyBytes) {
+            throw httpError(413, tooLargeMessage);
+        }
+        chunks.push(chunk);
+    }
+    try {
+        return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+        throw httpError(400, "Request body must be valid JSON.");
+    }
+}
+
+function requireImage(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !value.startsWith('data:image/')) {
+        throw httpError(400, `"${field}" must be an image data URL.`);
+    }
+    return value;
+}
+
+function parseDetectFaces(body: unknown): DetectFacesRequest {
+    const { image } = (body ?? {}) as Partial<DetectFacesRequest>;
+    return { image: requireImage(image, 'image') };
+}
+
+function parseGenerateAgeImage(body: unknown): GenerateAgeImageRequest {
+    const { image, prompt, targetAge, referenceImages = [] } = (body ?? {}) as Partial<GenerateAgeImageRequest>;
+    if (typeof prompt !== 'string' || prompt.trim() === '' || prompt.length > MAX_PROMPT_LENGTH) {
+        throw httpError(400, `"prompt" must be a non-empty string of at most ${MAX_PROMPT_LENGTH} characters.`);
+    }
+    if (targetAge !== undefined && (typeof targetAge !== 'number' || !Number.isFinite(targetAge))) {
+        throw httpError(400, `"targetAge" must be a number.`);
+    }
+    if (!Array.isArray(referenceImages) || referenceImages.length > MAX_REFERENCE_IMAGES) {
+        throw httpError(400, `"referenceImages" must be a list of at most ${MAX_REFERENCE_IMAGES} images.`);
+    }
+    return {
+        image: requireImage(image, 'image'),
+        prompt,
+        targetAge,
+        referenceImages: referenceImages.map((reference, index) => requireImage(reference, `referenceImages[${index}]`)),
+    };
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (!path.startsWith(API_PREFIX)) {
+        throw httpError(404, "Not found.");
+    }
+    const route = path.slice(API_PREFIX.length);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+    if (route === PROXY_ROUTES.health && req.method === 'GET') {
+        sendJson(res, 200, { ok: true, model: model.name });
+        return;
+    }
+    if (route !== PROXY_ROUTES.detectFaces && route !== PROXY_ROUTES.generateAgeImage) {
+        throw httpError(404, "Not found.");
+    }
+    if (req.method !== 'POST') {
+        throw httpError(405, "Use POST.");
+    }
+
+    const limit = rateLimiter.take(clientIdOf(req));
+    if (!limit.allowed) {
+        const retryAfterSeconds = Math.ceil(limit.retryAfterMs / 1000);
+        sendJson(res, 429, { error: `Too many requests. Try again in ${retryAfterSeconds} seconds.`, kind: 'rate-limited', retryAfterMs: limit.retryAfterMs }, { 'Retry-After': String(retryAfterSeconds) });
+        return;
+    }
+
+    const body = await readJsonBody(req);
+    if (route === PROXY_ROUTES.detectFaces) {
+        const { image } = parseDetectFaces(body);
+        sendJson(res, 200, { faces: await model.detectFaces(image) });
+        return;
+    }
+
+    const { image, prompt, targetAge, referenceImages } = parseGenerateAgeImage(body);
+    // Stop paying for a generation nobody is waiting for.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+    const generated = await model.generateAgeImage(image, prompt, { targetAge, referenceImages, signal: controller.signal });
+    sendJson(res, 200, { image: generated });
+}
+
+const server = createServer((req, res) => {
+    setCorsHeaders(req, res);
+    handleRequest(req, res).catch(error => {
+        if (isAbortError(error) || res.destroyed) return;
+        if (isHttpError(error)) {
+            sendJson(res, error.status, { error: error.message, kind: 'invalid-input' });
+            return;
+        }
+        console.error(`Failed to handle ${req.method} ${req.url}:`, error);
+        const { kind, message, retryAfterMs } = classifyError(error);
+        sendJson(res, STATUS_BY_ERROR_KIND[kind], { error: message, kind, retryAfterMs });
+    });
+});
+
+server.listen(port, () => {
+    console.log(`Age Voyager proxy listening on http://localhost:${port}${API_PREFIX} (${useStub ? 'stub model' : 'Gemini'})`);
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitOptions {
+    /** How many requests one client may make per window. */
+    maxRequests: number;
+    windowMs: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** How long the client should wait before trying again. Zero when the request is allowed. */
+    retryAfterMs: number;
+}
+
+export interface RateLimiter {
+    /**
+     * Records a request from a client, unless it would go over the limit.
+     * @param clientId Identifies the client, e.g. its IP address.
+     * @param now The current time, overridable for tests.
+     */
+    take(clientId: string, now?: number): RateLimitResult;
+}
+
+/**
+ * Creates a sliding-window rate limiter that keeps the time of each client's recent requests in memory.
+ * @param options The request limit and window length.
+ * @returns A limiter shared by every request the server handles.
+ */
+export function createRateLimiter({ maxRequests, windowMs }: RateLimitOptions): RateLimiter {
+    const requestTimes = new Map<string, number[]>();
+    let lastSweep = 0;
+
+    // Forget clients that have gone quiet, so the map doesn't grow forever.
+    const sweep = (now: number) => {
+        if (now - lastSweep < windowMs) return;
+        lastSweep = now;
+        for (const [clientId, times] of requestTimes) {
+            if (times[times.length - 1] <= now - windowMs) {
+                requestTimes.delete(clientId);
+            }
+        }
+    };
+
+    return {
+        take(clientId, now = Date.now()) {
+            sweep(now);
+            const recent = (requestTimes.get(clientId) ?? []).filter(time => time > now - windowMs);
+            if (recent.length >= maxRequests) {
+                requestTimes.set(clientId, recent);
+                return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+            }
+            recent.push(now);
+            requestTimes.set(clientId, recent);
+            return { allowed: true, retryAfterMs: 0 };
+        },
+    };
+}
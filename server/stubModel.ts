@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DetectedFace, ImageProvider } from '../services/imageProvider';
+import { abortableDelay } from '../lib/abortUtils';
+
+/**
+ * A stand-in for Gemini, so the proxy can be exercised end to end without a key or network access.
+ * It finds one face in the middle of every photo and "generates" by returning the input image,
+ * which is enough to check routing, limits and error handling.
+ * @param latencyMs Artificial delay before each response.
+ */
+export function createStubModel(latencyMs = 200): ImageProvider {
+    return {
+        name: 'stub',
+        imageModel: 'stub',
+        async detectFaces(imageDataUrl) {
+            await abortableDelay(latencyMs);
+            // Derive the age from the payload so different photos get different, but stable, estimates.
+            const estimatedAge = 18 + (imageDataUrl.length % 50);
+            const face: DetectedFace = {
+                box: { x: 0.3, y: 0.2, width: 0.4, height: 0.5 },
+                estimatedAge,
+                ageRange: { min: estimatedAge - 3, max: estimatedAge + 3 },
+                confidence: 0.5,
+                description: 'person in the centre',
+            };
+            return [face];
+        },
+        async generateAgeImage(imageDataUrl, _prompt, options = {}) {
+            await abortableDelay(latencyMs, options.signal);
+            return imageDataUrl;
+        },
+    };
+}
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isLocalizedError, MessageDescriptor } from '../lib/i18n';
+
+/**
+ * Typed errors for face detection and image generation, so callers can decide whether to retry
+ * and the UI can explain what went wrong instead of showing a raw API message.
+ */
+
+export type ImageErrorKind =
+    | 'rate-limited'
+    | 'quota-exhausted'
+    | 'safety-blocked'
+    | 'invalid-input'
+    | 'offline'
+    | 'model-refusal'
+    | 'server-error'
+    | 'unknown';
+
+export interface ImageServiceError extends Error {
+    kind: ImageErrorKind;
+    /** How long the service asked us to wait before retrying, when it said. */
+    retryAfterMs?: number;
+}
+
+export interface RetryPolicy {
+    /** Total attempts, including the first. 1 means never retry. */
+    maxAttempts: number;
+    /** The wait before the second attempt; it doubles after each further failure. */
+    baseDelayMs: number;
+}
+
+/** What the user sees for an error: what happened, why, and what they can do about it. Kept as messages so it follows the UI language. */
+export interface ErrorNotice {
+    title: MessageDescriptor;
+    explanation: MessageDescriptor;
+    action?: MessageDescriptor;
+    kind?: ImageErrorKind;
+}
+
+export const RETRY_POLICIES: Record<ImageErrorKind, RetryPolicy> = {
+    'rate-limited': { maxAttempts: 4, baseDelayMs: 2000 },
+    'server-error': { maxAttempts: 3, baseDelayMs: 1000 },
+    offline: { maxAttempts: 2, baseDelayMs: 3000 },
+    unknown: { maxAttempts: 2, baseDelayMs: 1000 },
+    // Retrying these gets the same answer, and quota retries just burn more quota.
+    'quota-exhausted': { maxAttempts: 1, baseDelayMs: 0 },
+    'safety-blocked': { maxAttempts: 1, baseDelayMs: 0 },
+    'invalid-input': { maxAttempts: 1, baseDelayMs: 0 },
+    'model-refusal': { maxAttempts: 1, baseDelayMs: 0 },
+};
+
+const ERROR_COPY: Record<ImageErrorKind, Required<Omit<ErrorNotice, 'kind'>>> = {
+    'rate-limited': {
+        title: { key: 'errors.rateLimited.title' },
+        explanation: { key: 'errors.rateLimited.explanation' },
+        action: { key: 'errors.rateLimited.action' },
+    },
+    'quota-exhausted': {
+        title: { key: 'errors.quotaExhausted.title' },
+        explanation: { key: 'errors.quotaExhausted.explanation' },
+        action: { key: 'errors.quotaExhausted.action' },
+    },
+    'safety-blocked': {
+        title: { key: 'errors.safetyBlocked.title' },
+        explanation: { key: 'errors.safetyBlocked.explanation' },
+        action: { key: 'errors.safetyBlocked.action' },
+    },
+    'invalid-input': {
+        title: { key: 'errors.invalidInput.title' },
+        explanation: { key: 'errors.invalidInput.explanation' },
+        action: { key: 'errors.invalidInput.action' },
+    },
+    offline: {
+        title: { key: 'errors.offline.title' },
+        explanation: { key: 'errors.offline.explanation' },
+        action: { key: 'errors.offline.action' },
+    },
+    'model-refusal': {
+        title: { key: 'errors.modelRefusal.title' },
+        explanation: { key: 'errors.modelRefusal.explanation' },
+        action: { key: 'errors.modelRefusal.action' },
+    },
+    'server-error': {
+        title: { key: 'errors.serverError.title' },
+        explanation: { key: 'errors.serverError.explanation' },
+        action: { key: 'errors.serverError.action' },
+    },
+    unknown: {
+        title: { key: 'errors.unknown.title' },
+        explanation: { key: 'errors.unknown.explanation' },
+        action: { key: 'errors.unknown.action' },
+    },
+};
+
+/**
+ * Creates a typed image service error.
+ * @param kind What kind of failure this is.
+ * @param message A technical message for logs.
+ * @param retryAfterMs How long the service asked us to wait, if it said.
+ */
+export function createImageError(kind: ImageErrorKind, message: string, retryAfterMs?: number): ImageServiceError {
+    return Object.assign(new Error(message), { name: 'ImageServiceError', kind, retryAfterMs });
+}
+
+export function isImageError(error: unknown): error is ImageServiceError {
+    return error instanceof Error && typeof (error as Partial<ImageServiceError>).kind === 'string';
+}
+
+/**
+ * Reads a retry delay from an error message, e.g. Gemini's `"retryDelay":"23s"`.
+ */
+function parseRetryDelay(message: string): number | undefined {
+    const match = message.match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+    return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * Works out what kind of failure an error is, from its type, HTTP status and message.
+ * Errors that are already typed are returned unchanged.
+ * @param error Anything thrown by a provider, the SDK or fetch.
+ * @returns A typed error that keeps the original message.
+ */
+export function classifyError(error: unknown): ImageServiceError {
+    if (isImageError(error)) return error;
+
+    const message = error instanceof Error ? error.message : typeof error === 'string' ? error : JSON.stringify(error);
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+    const has = (...needles: string[]) => needles.some(needle => message.includes(needle));
+
+    if ((typeof navigator !== 'undefined' && navigator.onLine === false) || (error instanceof TypeError && has('fetch', 'network', 'Network'))) {
+        return createImageError('offline', message);
+    }
+    if (status === 429 || has('"code":429', 'RESOURCE_EXHAUSTED')) {
+        // Gemini uses 429 for both; only the quota one mentions the quota being exceeded.
+        const kind = /quota/i.test(message) && !/per minute|PerMinute/i.test(message) ? 'quota-exhausted' : 'rate-limited';
+        return createImageError(kind, message, parseRetryDelay(message));
+    }
+    if (status === 400 || status === 413 || has('"code":400', 'INVALID_ARGUMENT')) {
+        return createImageError('invalid-input', message);
+    }
+    if ((status !== undefined && status >= 500) || has('"code":500', '"code":503', 'INTERNAL', 'UNAVAILABLE')) {
+        return createImageError('server-error', message);
+    }
+    return createImageError('unknown', message);
+}
+
+/**
+ * Decides how long to wait before retrying a failed attempt.
+ * @param error The error the attempt failed with.
+ * @param attempt The number of the attempt that just failed, starting at 1.
+ * @returns The delay in milliseconds, or null when the error shouldn't be retried.
+ */
+export function retryDelayFor(error: unknown, attempt: number): number | null {
+    const { kind, retryAfterMs } = classifyError(error);
+    const policy = RETRY_POLICIES[kind];
+    if (attempt >= policy.maxAttempts) return null;
+    return Math.max(retryAfterMs ?? 0, policy.baseDelayMs * Math.pow(2, attempt - 1));
+}
+
+/** How long a video frame waits for its one extra try, once the service has used up its own retries. */
+const FRAME_RETRY_DELAY_MS = 10_000;
+
+/**
+ * Decides whether a video frame gets one more try after the image service has given up on it.
+ * Only kinds of failure the service would retry qualify, after a pause long enough for a brief
+ * outage or rate limit to pass.
+ * @param error The error the frame failed with.
+ * @returns The delay in milliseconds, or null when the frame should be marked as failed.
+ */
+export function frameRetryDelayFor(error: unknown): number | null {
+    const { kind, retryAfterMs } = classifyError(error);
+    if (RETRY_POLICIES[kind].maxAttempts <= 1) return null;
+    return Math.max(retryAfterMs ?? 0, FRAME_RETRY_DELAY_MS);
+}
+
+/**
+ * Turns an error into something the user can act on.
+ * @param error The error to explain.
+ * @param context A title saying what failed, e.g. "Couldn't generate age 40", used when the error isn't typed.
+ * @returns Messages to show in the active language. Localized errors explain themselves; other untyped
+ * errors keep their own message as the explanation.
+ */
+export function describeError(error: unknown, context: MessageDescriptor): ErrorNotice {
+    if (isLocalizedError(error)) {
+        return { title: context, explanation: error.userMessage };
+    }
+    const { kind, message } = classifyError(error);
+    const copy = ERROR_COPY[kind];
+    if (kind === 'unknown') {
+        return { ...copy, title: context, explanation: message ? { key: 'common.raw', params: { text: message } } : copy.explanation, kind };
+    }
+    return { ...copy, kind };
+}
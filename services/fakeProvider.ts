@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DetectedFace, FaceBox, ImageProvider, GenerateImageOptions } from './imageProvider';
+import { abortableDelay, throwIfAborted } from '../lib/abortUtils';
+
+interface FakeProviderOptions {
+    /** Artificial delay before each response, to mimic network latency in demos. */
+    latencyMs?: number;
+}
+
+/**
+ * A small, stable string hash (FNV-1a) so the same input always yields the same output.
+ * @param text The text to hash.
+ * @returns An unsigned 32-bit hash.
+ */
+function fnv1a(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Invalid image data URL format."));
+        img.src = src;
+    });
+}
+
+/**
+ * Works out which age to render, preferring the explicit option and falling back to the prompt text.
+ * @param prompt The generation prompt.
+ * @param options The generation options.
+ */
+function resolveTargetAge(prompt: string, options: GenerateImageOptions): number | null {
+    if (typeof options.targetAge === 'number') {
+        return options.targetAge;
+    }
+    const match = prompt.match(/age of (\d+)/i);
+    return match ? parseInt(match[1], 10) : null;
+}
+
+/**
+ * Renders a synthetic "aged" image: the input tinted by age, with the age stamped in the corner.
+ * @param imageDataUrl A data URL string of the source image.
+ * @param targetAge The age to stamp, or null to leave the image unlabelled.
+ * @returns A PNG data URL.
+ */
+async function renderSyntheticImage(imageDataUrl: string, targetAge: number | null): Promise<string> {
+    const image = await loadImage(imageDataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error("Could not create canvas context.");
+    }
+
+    const age = targetAge ?? 0;
+    const ageRatio = Math.max(0, Math.min(1, age / 100));
+    // Older ages fade towards sepia and grey, younger ones stay vivid.
+    ctx.filter = `sepia(${ageRatio.toFixed(2)}) grayscale(${(ageRatio * 0.6).toFixed(2)}) contrast(${(1 - ageRatio * 0.2).toFixed(2)})`;
+    ctx.drawImage(image, 0, 0);
+    ctx.filter = 'none';
+
+    const hue = Math.round(200 - ageRatio * 170);
+    ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.18)`;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+    if (targetAge !== null) {
+        const fontSize = Math.max(16, Math.round(canvas.width / 10));
+        ctx.font = `${fontSize}px 'Permanent Marker', cursive`;
+        ctx.textBaseline = 'bottom';
+        ctx.lineWidth = Math.max(2, fontSize / 12);
+        ctx.strokeStyle = 'rgba(0, 0, 0, 0.8)';
+        ctx.fillStyle = '#fbbf24';
+        const label = `AGE ${targetAge}`;
+        const x = fontSize / 2;
+        const y = canvas.height - fontSize / 2;
+        ctx.strokeText(label, x, y);
+        ctx.fillText(label, x, y);
+    }
+
+    return canvas.toDataURL('image/png');
+}
+
+/**
+ * Creates a deterministic, offline provider for development, demos and automated tests.
+ * Face boxes and age estimates are derived from a hash of the image, and generated images are
+ * canvas-tinted copies of the input with the target age stamped on them.
+ * @param options Configuration for the fake provider.
+ * @returns An ImageProvider that never touches the network.
+ */
+export function createFakeProvider({ latencyMs = 300 }: FakeProviderOptions = {}): ImageProvider {
+    return {
+        name: 'fake',
+        imageModel: 'offline-fake',
+        async detectFaces(imageDataUrl: string): Promise<DetectedFace[]> {
+            await abortableDelay(latencyMs);
+            const hash = fnv1a(imageDataUrl);
+            const face = (box: FaceBox, age: number, description: string): DetectedFace => ({
+                box,
+                estimatedAge: age,
+                ageRange: { min: age - 4, max: age + 4 },
+                confidence: 0.6,
+                description,
+            });
+            // Roughly one photo in three is treated as a two-person shot, to exercise subject selection.
+            if (hash % 3 !== 0) {
+                return [face({ x: 0.3, y: 0.15, width: 0.4, height: 0.45 }, 18 + (hash % 50), 'the person in the photo')];
+            }
+            return [
+                face({ x: 0.1, y: 0.2, width: 0.3, height: 0.35 }, 18 + (hash % 50), 'the person on the left'),
+                face({ x: 0.6, y: 0.25, width: 0.3, height: 0.35 }, 18 + ((hash >>> 8) % 50), 'the person on the right'),
+            ];
+        },
+        async generateAgeImage(imageDataUrl: string, prompt: string, options: GenerateImageOptions = {}): Promise<string> {
+            await abortableDelay(latencyMs, options.signal);
+            const dataUrl = await renderSyntheticImage(imageDataUrl, resolveTargetAge(prompt, options));
+            throwIfAborted(options.signal);
+            return dataUrl;
+        },
+    };
+}
@@ -4,22 +4,54 @@
 */
 import { GoogleGenAI, Type } from "@google/genai";
 import type { GenerateContentResponse } from "@google/genai";
+import type { DetectedFace, ImageProvider } from './imageProvider';
+import { abortableDelay, isAbortError, throwIfAborted } from '../lib/abortUtils';
+import { classifyError, createImageError, retryDelayFor } from './errors';
 
-const API_KEY = process.env.API_KEY;
+let ai: GoogleGenAI | null = null;
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+// The image types Gemini accepts as inline input.
+const SUPPORTED_INPUT_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
 
-if (!API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
+/**
+ * Reports whether a Gemini API key is available to this build.
+ */
+export function hasGeminiApiKey(): boolean {
+    return Boolean(process.env.API_KEY);
+}
+
+/**
+ * Lazily creates the Gemini client, so the app can load without an API key.
+ * @returns The shared GoogleGenAI client.
+ */
+function getClient(): GoogleGenAI {
+    if (!ai) {
+        const apiKey = process.env.API_KEY;
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable is not set");
+        }
+        ai = new GoogleGenAI({ apiKey });
+    }
+    return ai;
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
 
+// Finish and block reasons that mean a safety filter stopped the request.
+const SAFETY_REASONS = ['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'];
 
 /**
  * Processes the Gemini API response, extracting the image or throwing an error if none is found.
  * @param response The response from the generateContent call.
  * @returns A data URL string for the generated image.
+ * @throws A 'safety-blocked' error when a filter stopped the request, or 'model-refusal' when only text came back.
  */
 function processImageResponse(response: GenerateContentResponse): string {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && SAFETY_REASONS.includes(finishReason))) {
+        throw createImageError('safety-blocked', `Gemini blocked the request (${blockReason ?? finishReason}).`);
+    }
+
     const imagePartFromResponse = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData);
 
     if (imagePartFromResponse?.inlineData) {
@@ -29,59 +61,53 @@ function processImageResponse(response: GenerateContentResponse): string {
 
     const textResponse = response.text;
     console.error("API did not return an image. Response:", textResponse);
-    throw new Error(`The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
+    throw createImageError('model-refusal', `The AI model responded with text instead of an image: "${textResponse || 'No text response received.'}"`);
 }
 
 /**
- * A wrapper for the Gemini API call that includes a retry mechanism for internal server errors.
+ * A wrapper for the Gemini API call that classifies failures and retries them according to their retry policy.
  * @param model The name of the model to use.
  * @param contents The contents for the request.
  * @param config Optional configuration for the request.
+ * @param signal An optional signal that cancels the request and any pending retries.
  * @returns The GenerateContentResponse from the API.
+ * @throws A typed ImageServiceError once retries are exhausted or the error isn't worth retrying.
  */
 async function callGeminiWithRetry(
     model: string,
     contents: any,
-    config: any = {}
+    config: any = {},
+    signal?: AbortSignal
 ): Promise<GenerateContentResponse> {
-    const maxRetries = 3;
-    const initialDelay = 1000;
-
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    for (let attempt = 1; ; attempt++) {
+        throwIfAborted(signal);
         try {
-            return await ai.models.generateContent({ model, contents, config });
+            return await getClient().models.generateContent({ model, contents, config: { ...config, abortSignal: signal } });
         } catch (error) {
-            console.error(`Error calling Gemini API (Attempt ${attempt}/${maxRetries}):`, error);
-            const errorMessage = error instanceof Error ? error.message : JSON.stringify(error);
-            const isInternalError = errorMessage.includes('"code":500') || errorMessage.includes('INTERNAL');
-
-            if (isInternalError && attempt < maxRetries) {
-                const delay = initialDelay * Math.pow(2, attempt - 1);
-                console.log(`Internal error detected. Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
-                continue;
+            if (isAbortError(error) || signal?.aborted) {
+                throw error;
+            }
+            const typedError = classifyError(error);
+            console.error(`Error calling Gemini API (attempt ${attempt}, ${typedError.kind}):`, error);
+            const delay = retryDelayFor(typedError, attempt);
+            if (delay === null) {
+                throw typedError;
             }
-            throw error; // Re-throw if not a retriable error or if max retries are reached.
+            console.log(`Retrying ${typedError.kind} error in ${delay}ms...`);
+            await abortableDelay(delay, signal);
         }
     }
-    throw new Error("Gemini API call failed after all retries.");
 }
 
 
 /**
- * Estimates the age of a person in an image.
+ * Finds every face in an image, with a bounding box and age estimate for each.
  * @param imageDataUrl A data URL string of the source image.
- * @returns A promise that resolves to the estimated age as a number.
+ * @returns A promise that resolves to the detected faces, ordered left to right.
  */
-export async function estimatePersonAge(imageDataUrl: string): Promise<number> {
-    const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-    if (!match) {
-        throw new Error("Invalid image data URL format.");
-    }
-    const [, mimeType, base64Data] = match;
-
-    const imagePart = { inlineData: { mimeType, data: base64Data } };
-    const textPart = { text: "Analyze the person in this photo and estimate their age. Provide your best estimate as a single number. The person's face is clearly visible. Respond with only a JSON object containing an 'age' key with the estimated age as an integer. Example: {\"age\": 35}" };
+export async function detectFaces(imageDataUrl: string): Promise<DetectedFace[]> {
+    const imagePart = toInlineImagePart(imageDataUrl);
+    const textPart = { text: "Detect every human face in this photo. For each face, give its bounding box as box_2d in [ymin, xmin, ymax, xmax] format normalized to 0-1000, your best estimate of the person's age as an integer, the youngest and oldest ages you consider plausible as age_min and age_max, your confidence in the estimate from 0 to 1, and a short visual description that tells them apart from the others (e.g. \"man in a blue cap\"). Return an empty list if there are no faces." };
 
     const response = await callGeminiWithRetry(
         'gemini-2.5-pro',
@@ -91,51 +117,113 @@ export async function estimatePersonAge(imageDataUrl: string): Promise<number> {
             responseSchema: {
                 type: Type.OBJECT,
                 properties: {
-                    age: { type: Type.INTEGER },
+                    faces: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } },
+                                age: { type: Type.INTEGER },
+                                age_min: { type: Type.INTEGER },
+                                age_max: { type: Type.INTEGER },
+                                confidence: { type: Type.NUMBER },
+                                description: { type: Type.STRING },
+                            },
+                            required: ['box_2d', 'age', 'age_min', 'age_max', 'confidence', 'description'],
+                        },
+                    },
                 },
+                required: ['faces'],
             },
         }
     );
 
+    let faces: DetectedFace[];
     try {
-        const jsonString = response.text.trim();
-        const result = JSON.parse(jsonString);
-        if (typeof result.age === 'number') {
-            return Math.max(1, Math.min(100, result.age)); // Clamp age between 1 and 100
+        const result = JSON.parse(response.text.trim());
+        if (!Array.isArray(result.faces)) {
+            throw new Error("Missing faces list in response.");
         }
-        throw new Error("Invalid age format in response.");
+        faces = result.faces.map((face: { box_2d: number[]; age: number; age_min?: number; age_max?: number; confidence?: number; description: string }) => {
+            if (!Array.isArray(face.box_2d) || face.box_2d.length !== 4 || typeof face.age !== 'number') {
+                throw new Error("Invalid face format in response.");
+            }
+            const [ymin, xmin, ymax, xmax] = face.box_2d.map(value => Math.max(0, Math.min(1000, value)) / 1000);
+            const clampAge = (age: number) => Math.max(1, Math.min(100, age)); // Clamp age between 1 and 100
+            const estimatedAge = clampAge(face.age);
+            return {
+                box: { x: xmin, y: ymin, width: Math.max(0, xmax - xmin), height: Math.max(0, ymax - ymin) },
+                estimatedAge,
+                ageRange: {
+                    min: Math.min(estimatedAge, clampAge(face.age_min ?? estimatedAge)),
+                    max: Math.max(estimatedAge, clampAge(face.age_max ?? estimatedAge)),
+                },
+                confidence: Math.max(0, Math.min(1, face.confidence ?? 0.5)),
+                description: String(face.description ?? '').trim(),
+            };
+        });
     } catch (e) {
-        console.error("Failed to parse age from Gemini response:", response.text);
-        throw new Error("Could not determine age from the photo. The AI's response was not in the expected format.");
+        console.error("Failed to parse faces from Gemini response:", response.text);
+        throw createImageError('model-refusal', "Could not analyze the people in the photo. The AI's response was not in the expected format.");
     }
+    return faces.sort((a, b) => a.box.x - b.box.x);
 }
 
 
+/**
+ * Converts an image data URL into an inline data part for the Gemini API.
+ * @param imageDataUrl A data URL string of the image.
+ */
+function toInlineImagePart(imageDataUrl: string) {
+    const match = imageDataUrl.match(/^data:([^;,]+);base64,(.*)$/s);
+    if (!match) {
+        throw createImageError('invalid-input', "Invalid image data URL format. Expected 'data:image/...;base64,...'");
+    }
+    const [, mimeType, base64Data] = match;
+    if (!SUPPORTED_INPUT_MIME_TYPES.includes(mimeType)) {
+        throw createImageError('invalid-input', `Images of type "${mimeType}" can't be sent to Gemini. Please use a JPEG, PNG or WebP photo.`);
+    }
+    return { inlineData: { mimeType, data: base64Data } };
+}
+
 /**
  * Generates an age-modified image from a source image and a prompt.
  * @param imageDataUrl A data URL string of the source image.
  * @param prompt The prompt to guide the image generation.
+ * @param signal An optional signal that cancels the generation.
+ * @param referenceImages Data URLs of extra photos of the same person, sent after the source image.
  * @returns A promise that resolves to a base64-encoded image data URL of the generated image.
  */
-export async function generateAgeImage(imageDataUrl: string, prompt: string): Promise<string> {
-  const match = imageDataUrl.match(/^data:(image\/\w+);base64,(.*)$/);
-  if (!match) {
-    throw new Error("Invalid image data URL format. Expected 'data:image/...;base64,...'");
-  }
-  const [, mimeType, base64Data] = match;
-
-    const imagePart = { inlineData: { mimeType, data: base64Data } };
-    const textPart = { text: prompt };
+export async function generateAgeImage(imageDataUrl: string, prompt: string, signal?: AbortSignal, referenceImages: string[] = []): Promise<string> {
+    const imagePart = toInlineImagePart(imageDataUrl);
+    const referenceParts = referenceImages.map(toInlineImagePart);
+    const referenceNote = referenceParts.length > 0
+        ? ` The first image is the photo to edit. The ${referenceParts.length === 1 ? 'next image is a reference photo' : `next ${referenceParts.length} images are reference photos`} of the same person, possibly at other ages. Use them only to keep the person's identity consistent; do not copy their clothing, pose, or background.`
+        : '';
+    const textPart = { text: prompt + referenceNote };
 
     try {
         const response = await callGeminiWithRetry(
-            'gemini-2.5-flash-image',
-            { parts: [imagePart, textPart] }
+            IMAGE_MODEL,
+            { parts: [imagePart, ...referenceParts, textPart] },
+            {},
+            signal
         );
         return processImageResponse(response);
     } catch (error) {
+        if (isAbortError(error)) {
+            throw error;
+        }
         console.error("An unrecoverable error occurred during image generation.", error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        throw new Error(`The AI model failed to generate an image. Details: ${errorMessage}`);
+        // Keep the error's kind, so the app can explain it and decide whether to retry.
+        const typedError = classifyError(error);
+        throw createImageError(typedError.kind, `The AI model failed to generate an image. Details: ${typedError.message}`, typedError.retryAfterMs);
     }
-}
\ No newline at end of file
+}
+
+export const geminiProvider: ImageProvider = {
+    name: 'gemini',
+    imageModel: IMAGE_MODEL,
+    detectFaces,
+    generateAgeImage: (imageDataUrl, prompt, options = {}) => generateAgeImage(imageDataUrl, prompt, options.signal, options.referenceImages),
+};
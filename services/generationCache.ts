@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { getImageProvider } from './imageProvider';
+import { sha256Hex } from '../lib/hashUtils';
+import { raceWithSignal, throwIfAborted } from '../lib/abortUtils';
+
+const DB_NAME = 'age-voyager-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'generations';
+
+export interface CacheLimits {
+    maxEntries: number;
+    maxBytes: number;
+}
+
+export interface CacheStats {
+    entries: number;
+    bytes: number;
+}
+
+interface CacheEntry {
+    key: string;
+    dataUrl: string;
+    size: number;
+    targetAge: number;
+    prompt: string;
+    createdAt: number;
+    lastAccessed: number;
+}
+
+interface SharedRequest {
+    promise: Promise<string>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+let cacheLimits: CacheLimits = {
+    maxEntries: 200,
+    maxBytes: 150 * 1024 * 1024,
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const inFlight = new Map<string, SharedRequest>();
+// The source image and any reference photos are hashed on every request, so keep the last few hashes.
+const imageHashes = new Map<string, Promise<string>>();
+const MAX_REMEMBERED_HASHES = 8;
+
+/**
+ * Wraps an IDBRequest in a promise.
+ * @param request The request to wait on.
+ * @returns A promise that resolves with the request's result.
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves once a transaction has committed.
+ * @param transaction The transaction to wait on.
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
+
+/**
+ * Opens the cache database, creating the object store on first use.
+ * Resolves to null when IndexedDB is unavailable (e.g. some private browsing modes),
+ * in which case the cache is silently bypassed.
+ */
+function openDatabase(): Promise<IDBDatabase | null> {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase | null>((resolve) => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+                store.createIndex('lastAccessed', 'lastAccessed');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("Generation cache is unavailable:", request.error);
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Hashes an image, reusing recent results when the same images are hashed repeatedly.
+ * @param imageDataUrl A data URL string of the image.
+ */
+function hashImage(imageDataUrl: string): Promise<string> {
+    let hash = imageHashes.get(imageDataUrl);
+    if (!hash) {
+        hash = sha256Hex(imageDataUrl);
+        if (imageHashes.size >= MAX_REMEMBERED_HASHES) {
+            imageHashes.delete(imageHashes.keys().next().value!);
+        }
+        imageHashes.set(imageDataUrl, hash);
+    }
+    return hash;
+}
+
+/**
+ * Builds the cache key for a generation request.
+ * @param providerName The provider that renders the image, so fake and real results never mix.
+ * @param imageDataUrl A data URL string of the source image.
+ * @param targetAge The age the image is generated for.
+ * @param prompt The prompt sent to the model.
+ * @param referenceImages Data URLs of extra identity reference photos.
+ * @returns A promise that resolves to a hex cache key.
+ */
+async function buildCacheKey(providerName: string, imageDataUrl: string, targetAge: number, prompt: string, referenceImages: string[]): Promise<string> {
+    const sourceHash = await hashImage(imageDataUrl);
+    const parts: unknown[] = [providerName, sourceHash, targetAge, prompt];
+    if (referenceImages.length > 0) {
+        // Only added when present, so keys for single-photo requests stay the same as before references existed.
+        parts.push(await Promise.all(referenceImages.map(hashImage)));
+    }
+    return sha256Hex(JSON.stringify(parts));
+}
+
+async function readEntry(key: string): Promise<string | null> {
+    const db = await openDatabase();
+    if (!db) return null;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const entry = await requestToPromise<CacheEntry | undefined>(store.get(key));
+    if (entry) {
+        // Touch the entry so LRU eviction keeps recently used generations around.
+        store.put({ ...entry, lastAccessed: Date.now() });
+    }
+    await transactionDone(transaction);
+    return entry?.dataUrl ?? null;
+}
+
+async function writeEntry(entry: CacheEntry): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(entry);
+    await transactionDone(transaction);
+    await evictToLimits();
+}
+
+/**
+ * Deletes least recently used entries until the cache fits within its entry and byte limits.
+ */
+async function evictToLimits(): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(STORE_NAME);
+    const entries = await requestToPromise<CacheEntry[]>(store.index('lastAccessed').getAll());
+
+    let count = entries.length;
+    let bytes = entries.reduce((total, entry) => total + entry.size, 0);
+    // Entries come back in ascending lastAccessed order, so the oldest are evicted first.
+    for (const entry of entries) {
+        if (count <= cacheLimits.maxEntries && bytes <= cacheLimits.maxBytes) break;
+        store.delete(entry.key);
+        count -= 1;
+        bytes -= entry.size;
+    }
+    await transactionDone(transaction);
+}
+
+/**
+ * Updates the cache size limits and evicts entries that no longer fit.
+ * @param limits The limits to apply. Omitted fields keep their current value.
+ */
+export async function setGenerationCacheLimits(limits: Partial<CacheLimits>): Promise<void> {
+    cacheLimits = { ...cacheLimits, ...limits };
+    await evictToLimits();
+}
+
+/**
+ * Reports how many generations are cached and how much space they use.
+ * @returns A promise that resolves to the current cache statistics.
+ */
+export async function getGenerationCacheStats(): Promise<CacheStats> {
+    const db = await openDatabase();
+    if (!db) return { entries: 0, bytes: 0 };
+
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const entries = await requestToPromise<CacheEntry[]>(transaction.objectStore(STORE_NAME).getAll());
+    return {
+        entries: entries.length,
+        bytes: entries.reduce((total, entry) => total + entry.size, 0),
+    };
+}
+
+/**
+ * Removes every cached generation.
+ */
+export async function clearGenerationCache(): Promise<void> {
+    const db = await openDatabase();
+    if (!db) return;
+
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    await transactionDone(transaction);
+}
+
+/**
+ * Starts the cache lookup and, on a miss, the model call for a key.
+ * @returns The shared request, registered in the in-flight map until it settles.
+ */
+function startSharedRequest(key: string, imageDataUrl: string, targetAge: number, prompt: string, referenceImages: string[]): SharedRequest {
+    const provider = getImageProvider();
+    const controller = new AbortController();
+
+    const promise = (async () => {
+        try {
+            const cached = await readEntry(key);
+            if (cached) return cached;
+        } catch (error) {
+            console.warn("Failed to read from generation cache:", error);
+        }
+
+        const dataUrl = await provider.generateAgeImage(imageDataUrl, prompt, { targetAge, referenceImages, signal: controller.signal });
+        const now = Date.now();
+        writeEntry({ key, dataUrl, size: dataUrl.length, targetAge, prompt, createdAt: now, lastAccessed: now })
+            .catch(error => console.warn("Failed to write to generation cache:", error));
+        return dataUrl;
+    })();
+
+    const shared: SharedRequest = { promise, controller, subscribers: 0 };
+    const release = () => {
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+    };
+    promise.then(release, release);
+    inFlight.set(key, shared);
+    return shared;
+}
+
+/**
+ * Generates an age-modified image, reusing a cached result for the same source image, age and prompt.
+ * Concurrent requests for the same key share a single model call. Aborting one caller's signal only
+ * detaches that caller; the model call itself is aborted once every caller has gone away.
+ * @param imageDataUrl A data URL string of the source image.
+ * @param targetAge The age the image is generated for.
+ * @param prompt The prompt to guide the image generation.
+ * @param signal An optional signal that cancels this caller's request.
+ * @param referenceImages Data URLs of extra photos of the same person, sent to help keep their identity.
+ * @returns A promise that resolves to a data URL of the generated image.
+ */
+export async function generateAgeImageCached(
+    imageDataUrl: string,
+    targetAge: number,
+    prompt: string,
+    signal?: AbortSignal,
+    referenceImages: string[] = []
+): Promise<string> {
+    let key: string;
+    try {
+        key = await buildCacheKey(getImageProvider().name, imageDataUrl, targetAge, prompt, referenceImages);
+    } catch (error) {
+        // Without a key there is nothing to look up or share, but the image can still be generated.
+        console.warn("Failed to build generation cache key, generating without the cache:", error);
+        throwIfAborted(signal);
+        return getImageProvider().generateAgeImage(imageDataUrl, prompt, { targetAge, referenceImages, signal });
+    }
+    throwIfAborted(signal);
+
+    const shared = inFlight.get(key) ?? startSharedRequest(key, imageDataUrl, targetAge, prompt, referenceImages);
+    shared.subscribers += 1;
+    try {
+        return await raceWithSignal(shared.promise, signal);
+    } finally {
+        shared.subscribers -= 1;
+        if (shared.subscribers === 0 && signal?.aborted) {
+            if (inFlight.get(key) === shared) inFlight.delete(key);
+            shared.controller.abort();
+        }
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { geminiProvider, hasGeminiApiKey } from './geminiService';
+import { createFakeProvider } from './fakeProvider';
+import { createProxyProvider } from './proxyProvider';
+
+export interface GenerateImageOptions {
+    /** The age the generated image should depict. Used by providers that don't interpret the prompt. */
+    targetAge?: number;
+    /** Extra photos of the same person, possibly at other ages, to help keep their identity consistent. */
+    referenceImages?: string[];
+    /** Cancels the generation. Providers reject with an AbortError when it fires. */
+    signal?: AbortSignal;
+}
+
+/**
+ * A face's bounding box, as fractions (0 to 1) of the image width and height.
+ */
+export interface FaceBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface DetectedFace {
+    box: FaceBox;
+    /** The single most likely age. */
+    estimatedAge: number;
+    /** The plausible range around the estimate, inclusive. */
+    ageRange: { min: number; max: number };
+    /** How sure the model is about the estimate, from 0 to 1. */
+    confidence: number;
+    /** A short visual description, e.g. "woman with red glasses", used to point prompts at this person. */
+    description: string;
+}
+
+/**
+ * A backend capable of finding the people in a photo and rendering one of them at a different age.
+ */
+export interface ImageProvider {
+    /** A stable identifier, also used to keep cached generations from different providers apart. */
+    readonly name: string;
+    /** The model that renders images, recorded in the metadata of exported files. */
+    readonly imageModel: string;
+    /** Finds every visible face, ordered left to right. Resolves to an empty array when there are none. */
+    detectFaces(imageDataUrl: string): Promise<DetectedFace[]>;
+    generateAgeImage(imageDataUrl: string, prompt: string, options?: GenerateImageOptions): Promise<string>;
+}
+
+let activeProvider: ImageProvider | null = null;
+
+/**
+ * Picks the provider named by the IMAGE_PROVIDER environment variable.
+ * Falls back to the offline fake provider when no Gemini API key is configured,
+ * so the app can render and be demoed without network access.
+ */
+function resolveDefaultProvider(): ImageProvider {
+    const requested = process.env.IMAGE_PROVIDER;
+    if (requested === 'fake') {
+        return createFakeProvider();
+    }
+    if (requested === 'proxy') {
+        return createProxyProvider(process.env.API_PROXY_URL || '/api');
+    }
+    if (requested === 'gemini' || hasGeminiApiKey()) {
+        return geminiProvider;
+    }
+    console.info("No Gemini API key configured. Using the offline fake image provider.");
+    return createFakeProvider();
+}
+
+/**
+ * Returns the provider the app should use for age estimation and image generation.
+ */
+export function getImageProvider(): ImageProvider {
+    if (!activeProvider) {
+        activeProvider = resolveDefaultProvider();
+    }
+    return activeProvider;
+}
+
+/**
+ * Overrides the active provider, e.g. to inject a fake in tests.
+ * @param provider The provider to use, or null to go back to the environment default.
+ */
+export function setImageProvider(provider: ImageProvider | null): void {
+    activeProvider = provider;
+}
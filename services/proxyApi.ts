@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ImageErrorKind } from './errors';
+
+/**
+ * The request and response shapes shared by the proxy server and the browser's proxy provider.
+ */
+
+export const PROXY_ROUTES = {
+    health: '/health',
+    detectFaces: '/detect-faces',
+    generateAgeImage: '/generate-age-image',
+} as const;
+
+export interface DetectFacesRequest {
+    image: string;
+}
+
+export interface GenerateAgeImageRequest {
+    image: string;
+    prompt: string;
+    targetAge?: number;
+    referenceImages?: string[];
+}
+
+export interface ProxyErrorResponse {
+    error: string;
+    /** The typed error kind, so the browser can explain and retry it the same way as a direct call. */
+    kind?: ImageErrorKind;
+    retryAfterMs?: number;
+}
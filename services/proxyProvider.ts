@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DetectedFace, ImageProvider } from './imageProvider';
+import { PROXY_ROUTES, DetectFacesRequest, GenerateAgeImageRequest, ProxyErrorResponse } from './proxyApi';
+import { classifyError, createImageError } from './errors';
+
+/**
+ * Sends a JSON request to the proxy and returns its JSON response.
+ * @throws A typed ImageServiceError when the proxy can't be reached or answers with an error status.
+ */
+async function postJson<T>(url: string, body: unknown, signal?: AbortSignal): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+    } catch (error) {
+        if (signal?.aborted) throw error;
+        throw classifyError(error);
+    }
+    const payload = await response.json().catch(() => null) as (T & Partial<ProxyErrorResponse>) | null;
+    if (!response.ok || payload === null) {
+        const message = payload?.error ?? `The proxy server responded with status ${response.status}.`;
+        if (payload?.kind) {
+            throw createImageError(payload.kind, message, payload.retryAfterMs);
+        }
+        throw classifyError(Object.assign(new Error(message), { status: response.status }));
+    }
+    return payload;
+}
+
+/**
+ * Creates a provider that calls the proxy server in server/, which holds the Gemini key
+ * so it never has to be shipped to the browser.
+ * @param baseUrl Where the proxy's API is served, e.g. "/api" or "https://example.com/api".
+ */
+export function createProxyProvider(baseUrl: string): ImageProvider {
+    const url = (route: string) => `${baseUrl.replace(/\/$/, '')}${route}`;
+    return {
+        name: 'proxy',
+        // The proxy picks the model server-side.
+        imageModel: 'proxy',
+        async detectFaces(imageDataUrl) {
+            const request: DetectFacesRequest = { image: imageDataUrl };
+            const { faces } = await postJson<{ faces: DetectedFace[] }>(url(PROXY_ROUTES.detectFaces), request);
+            return faces;
+        },
+        async generateAgeImage(imageDataUrl, prompt, options = {}) {
+            const request: GenerateAgeImageRequest = {
+                image: imageDataUrl,
+                prompt,
+                targetAge: options.targetAge,
+                referenceImages: options.referenceImages,
+            };
+            const { image } = await postJson<{ image: string }>(url(PROXY_ROUTES.generateAgeImage), request, options.signal);
+            return image;
+        },
+    };
+}
@@ -4,15 +4,23 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // With the proxy, the key stays on the server and must not be inlined into the bundle.
+    const usesProxy = env.IMAGE_PROVIDER === 'proxy';
+    const apiKey = usesProxy ? undefined : env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: usesProxy && !env.API_PROXY_URL
+          ? { '/api': `http://localhost:${env.PROXY_PORT || 8787}` }
+          : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER),
+        'process.env.API_PROXY_URL': JSON.stringify(env.API_PROXY_URL)
       },
       resolve: {
         alias: {